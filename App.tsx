@@ -1,15 +1,57 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GameState, GameMode, Difficulty, Note, ScoreRecord, Feedback, PowerupState, PowerupType, StudyConfig, ScaleType, FocusMode, GameConfig, GuitarProfile, AccidentalStyle, NoteStatsMap, NoteStat, HeatmapMetric, NoteInteraction, StaffGameConfig, ClefPreference, NoteDurationType, NoteRange } from './types';
-import { NOTES_SHARP, NATURAL_NOTES, INITIAL_MAX_FRET, TOTAL_FRETS, MAX_HEALTH, TIME_LIMIT_MS, getNoteAtPosition, getNoteHue, getScaleNotes, getDisplayNoteName, getChordNotes, STANDARD_TUNING_OFFSETS, generateRandomStaffNote, generateRandomStaffNoteInRange, StaffNoteData, getRecommendedClef } from './constants';
+import { GameState, GameMode, Difficulty, Note, ScoreRecord, Feedback, PowerupState, PowerupType, StudyConfig, ScaleType, FocusMode, GameConfig, GuitarProfile, LearnerProfile, AccidentalStyle, ChordQuality, NoteStatsMap, NoteStat, HeatmapMetric, HeatmapCell, NoteInteraction, StaffGameConfig, ClefPreference, NoteDurationType, NoteRange, MarkedPosition, TimeSignature, PlaybackMode, InputMethod } from './types';
+import { NOTES_SHARP, NATURAL_NOTES, INITIAL_MAX_FRET, TOTAL_FRETS, MAX_HEALTH, TIME_LIMIT_MS, getNoteAtPosition, getNoteHue, getScaleNotes, getDisplayNoteName, getChordNotes, STANDARD_TUNING_OFFSETS, generateRandomStaffNote, generateRandomStaffNoteInRange, getStaffNotesInRange, generateMelodicLine, arrangeInMeasures, StaffNoteData, getRecommendedClef, fretboardToStaffNote, noteToSemitones, fitsOnStaff, INTERVAL_NAMES, getIntervalName, getPositionPitch, getScaleDegree, getScaleDegreeNames, CHORD_SYMBOLS, CHORD_TONE_NAMES, CHORD_INTERVALS, getChordTone, KEY_SIGNATURES, KeySignature, getKeySignatureTonic, getStaffStep, getMeasureSixteenths, getBeatSixteenths, getNoteOnsets, DURATION_SIXTEENTHS } from './constants';
 import Fretboard from './components/Fretboard';
 import StatsChart from './components/StatsChart';
 import GuitarSettings from './components/GuitarSettings';
-import Staff, { NoteDuration, DURATION_NAMES } from './components/Staff';
+import Staff, { DURATION_NAMES } from './components/Staff';
 import StaffRangeSelector from './components/StaffRangeSelector';
+import StaffNoteInput from './components/StaffNoteInput';
+import { playPitch, scheduleClickTrack } from './audio';
+import { startMicrophonePitchListener } from './pitchDetection';
+import { startMidiNoteListener } from './midiInput';
+import Tuner from './components/Tuner';
+import StaffHeatmap from './components/StaffHeatmap';
+import ConfusionMatrix from './components/ConfusionMatrix';
+import LearnerPicker from './components/LearnerPicker';
+import { loadStored, saveStored, loadGameConfig, loadLearners, saveLearners, getActiveLearnerId, setActiveLearner, removeLearnerData } from './storage';
+import { loadHistory, addSession, saveSessions, queryInteractions, queryInteractionsAt, deleteLearnerHistory } from './historyDb';
+import { SyncSettings, SyncOutbox, EMPTY_OUTBOX, createSyncSettings, queueSession, queueAnswer, queueGuitar, queueEverything, isOutboxEmpty, buildSyncRequest, sendSyncRequest, applySyncResponse } from './sync';
+import { BackupFile, createBackup, writeBackup, parseBackup, mergeBackup, interactionsToCsv, downloadFile } from './backup';
+import { getReviewGrade, scheduleReview, selectNextReview } from './scheduler';
 
 // All available note duration types
 const ALL_NOTE_DURATIONS: NoteDurationType[] = ['w', 'h', 'q', '8', 'wd', 'hd', 'qd', '8d'];
 
+const TIME_SIGNATURE_OPTIONS: TimeSignature[] = ['2/4', '3/4', '4/4', '6/8'];
+
+// Pause between the ear training reference note and the target
+const EAR_REFERENCE_GAP_SECONDS = 1.2;
+
+// Rhythm reading: answers this close to the beat count as on time
+const RHYTHM_TOLERANCE_MS = 120;
+// Rhythm reading: silence before the count-in measure, so the first click is not cut off
+const RHYTHM_LEAD_IN_SECONDS = 0.5;
+
+const PLAYBACK_OPTIONS: { value: PlaybackMode; label: string }[] = [
+  { value: 'ON_REVEAL', label: 'On Reveal' },
+  { value: 'ON_CORRECT', label: 'On Correct' },
+  { value: 'NEVER', label: 'Off' }
+];
+
+const INPUT_METHOD_OPTIONS: { value: InputMethod; label: string }[] = [
+  { value: 'BUTTONS', label: 'Buttons' },
+  { value: 'MICROPHONE', label: 'Microphone' },
+  { value: 'MIDI', label: 'MIDI' }
+];
+
+// Melodic leap limit labels, indexed by staff steps (1 = second)
+const LEAP_LABELS = ['', 'Step', '3rd', '4th', '5th', '6th', '7th', 'Octave'];
+
+// Indexes of the notes in a passage that are played (identified), skipping tied continuations
+const getAttackIndexes = (notes: StaffNoteData[]): number[] =>
+  notes.map((n, index) => (n.tied ? -1 : index)).filter(index => index >= 0);
+
 // Hook for mobile detection
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
@@ -35,9 +77,399 @@ const DEFAULT_GAME_CONFIG: GameConfig = {
   startingFret: INITIAL_MAX_FRET,
   maxFretCap: TOTAL_FRETS,
   timeLimit: 10,
-  adaptiveLearning: true
+  adaptiveLearning: true,
+  octaveMatch: 'PITCH_CLASS',
+  playback: 'ON_CORRECT',
+  earReference: true,
+  inputMethod: 'BUTTONS'
+};
+
+// Game modes played on the staff screen; every other mode is played on the fretboard screen
+const STAFF_GAME_MODES: GameMode[] = [GameMode.STAFF_TO_NOTE, GameMode.NOTE_TO_STAFF, GameMode.KEY_SIGNATURE_TO_KEY, GameMode.STAFF_RHYTHM];
+const isStaffGameMode = (mode: GameMode | null) => mode !== null && STAFF_GAME_MODES.includes(mode);
+
+// Fretboard game modes answered by tapping positions instead of answer buttons
+const TAP_ANSWER_MODES: GameMode[] = [GameMode.NOTE_TO_FRETBOARD, GameMode.STAFF_TO_FRETBOARD, GameMode.FRETBOARD_TO_OCTAVES, GameMode.EAR_TO_FRETBOARD];
+
+// Modes where the target is only heard, never shown
+const EAR_TRAINING_MODES: GameMode[] = [GameMode.EAR_TO_FRETBOARD, GameMode.EAR_TO_NOTE];
+
+// Modes whose answer is a single note the player can play on the instrument (microphone/MIDI input)
+const PLAYABLE_ANSWER_MODES: GameMode[] = [GameMode.FRETBOARD_TO_NOTE, GameMode.STAFF_TO_NOTE, GameMode.EAR_TO_NOTE, GameMode.STAFF_RHYTHM];
+
+// Playable modes the microphone sits out: it would hear the ear training prompt or the click track
+const MICROPHONE_EXCLUDED_MODES: GameMode[] = [...EAR_TRAINING_MODES, GameMode.STAFF_RHYTHM];
+
+// Tap modes where any unison of one exact pitch is the answer
+const PITCH_TAP_MODES: GameMode[] = [GameMode.STAFF_TO_FRETBOARD, GameMode.EAR_TO_FRETBOARD];
+
+// Tap modes where every matching position has to be found before the round ends
+const MULTI_TAP_MODES: GameMode[] = [GameMode.NOTE_TO_FRETBOARD, GameMode.FRETBOARD_TO_OCTAVES];
+
+// Modes that show written notes and therefore use the clef/notation settings
+const STAFF_NOTATION_MODES: GameMode[] = [...STAFF_GAME_MODES, GameMode.STAFF_TO_FRETBOARD, GameMode.FRETBOARD_TO_STAFF];
+
+// Modes whose answers are not about a single position; their results stay out of the position heatmap
+const NON_POSITION_MODES: GameMode[] = [GameMode.FRETBOARD_TO_INTERVAL, GameMode.FRETBOARD_TO_DEGREE, GameMode.FRETBOARD_TO_CHORD_TONE];
+
+// Fretboard modes answered with a note name; their answers feed the confusion matrix
+const NOTE_NAMING_MODES: GameMode[] = [GameMode.FRETBOARD_TO_NOTE, GameMode.EAR_TO_NOTE];
+
+// How many of the easy-mode distractors may be notes the player has confused with the target before
+const CONFUSED_DISTRACTORS = 2;
+
+// Scales/modes that can be chosen as the key
+const KEY_SCALE_OPTIONS: { value: ScaleType; label: string }[] = [
+  { value: 'MAJOR', label: 'Major' },
+  { value: 'NATURAL_MINOR', label: 'Minor' },
+  { value: 'DORIAN', label: 'Dorian' },
+  { value: 'PHRYGIAN', label: 'Phrygian' },
+  { value: 'LYDIAN', label: 'Lydian' },
+  { value: 'MIXOLYDIAN', label: 'Mixolydian' },
+  { value: 'LOCRIAN', label: 'Locrian' }
+];
+
+const getKeyScaleLabel = (scale: ScaleType) => KEY_SCALE_OPTIONS.find(o => o.value === scale)?.label || 'Major';
+
+// Key signature drill round: the signature shown, what is asked about it and the expected answer
+interface KeySignatureRound {
+  signature: KeySignature;
+  question: 'MAJOR' | 'MINOR' | 'MODE';
+  answer: string; // Key name ('Bb', 'Gm') or, for MODE, a ScaleType
+}
+
+// Rhythm reading: a passage in progress against the click track
+interface RhythmRound {
+  notes: StaffNoteData[];
+  startAt: number;      // Wall-clock time of the first note's beat (after the count-in)
+  onsetsMs: number[];   // Beat of each written note, from startAt
+  lengthMs: number;
+  results: { index: number; isCorrect: boolean; offsetMs: number | null }[]; // offsetMs null: missed
+  stopClicks: () => void;
+}
+
+const getRelativeMinorName = (signature: KeySignature) => `${getKeySignatureTonic(signature.accidentals, 'NATURAL_MINOR')}m`;
+
+// Key names are kept in ASCII ('Bb', 'F#m') for answers and shown with music symbols
+const formatKeyName = (key: string) => key.charAt(0) + key.slice(1).replace('#', '♯').replace('b', '♭');
+
+// Fretboard modes answered with labels (intervals, degrees, chord tones) instead of note names
+const LABEL_ANSWER_MODES: GameMode[] = [GameMode.FRETBOARD_TO_INTERVAL, GameMode.FRETBOARD_TO_DEGREE, GameMode.FRETBOARD_TO_CHORD_TONE];
+
+// Chord-tone drill: the answer for a position outside the chord, and how often such positions are asked
+const NOT_IN_CHORD = 'Not in chord';
+const NON_CHORD_TONE_CHANCE = 0.3;
+
+// Index of a note name in NOTES_SHARP, whatever its spelling ('Bb' -> 10)
+const getPitchClass = (noteName: string) => ((noteToSemitones({ noteName, octave: 0 }) % 12) + 12) % 12;
+
+// Named-note answers in a set of records (records without a mode are from Fretboard Training)
+const getNoteNamingInteractions = (records: ScoreRecord[]): NoteInteraction[] =>
+  records
+    .filter(record => NOTE_NAMING_MODES.includes(record.gameMode || GameMode.FRETBOARD_TO_NOTE))
+    .flatMap(record => record.interactions || [])
+    .filter(interaction => interaction.note && interaction.answer);
+
+// counts[asked][answered] by pitch class, optionally for one string only
+const getConfusionCounts = (interactions: NoteInteraction[], stringIndex: number | null): number[][] => {
+  const counts = NOTES_SHARP.map(() => NOTES_SHARP.map(() => 0));
+  interactions.forEach(interaction => {
+    if (!interaction.note || !interaction.answer) return;
+    if (stringIndex !== null && interaction.note.stringIndex !== stringIndex) return;
+    counts[getPitchClass(interaction.note.noteName)][getPitchClass(interaction.answer)]++;
+  });
+  return counts;
+};
+
+// Accuracy per chord quality in a set of chord-tone interactions, in CHORD_INTERVALS order
+const getChordQualityBreakdown = (interactions: NoteInteraction[]) =>
+  (Object.keys(CHORD_INTERVALS) as ChordQuality[])
+    .map(quality => {
+      const results = interactions.filter(i => i.chord?.quality === quality);
+      return { quality, correct: results.filter(i => i.isCorrect).length, total: results.length };
+    })
+    .filter(item => item.total > 0);
+
+// Interval drill: root and target stay within a playable hand span
+const INTERVAL_MAX_FRET_SPAN = 4;
+
+// Modes where the octave matters, so feedback names the full pitch
+const OCTAVE_SPECIFIC_MODES: GameMode[] = [GameMode.STAFF_TO_FRETBOARD, GameMode.FRETBOARD_TO_STAFF, GameMode.NOTE_TO_STAFF, GameMode.EAR_TO_FRETBOARD];
+
+// Menu cards for each playable game mode
+interface MenuModeOption {
+  mode: GameMode;
+  title: string;
+  description: string;
+  iconPath: string;
+  cardClass: string;         // Card background/border when idle
+  cardSelectedClass: string; // Card background/border when selected
+  iconClass: string;         // Icon tile gradient
+  badgeClass: string;        // Selected check badge
+  startClass: string;        // Start button gradient
+  accentClass: string;       // Accent text color (game over screen)
+}
+
+const MENU_MODE_OPTIONS: MenuModeOption[] = [
+  {
+    mode: GameMode.FRETBOARD_TO_NOTE,
+    title: 'Fretboard Training',
+    description: 'See a note on the fretboard, name it',
+    iconPath: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3',
+    cardClass: 'bg-gradient-to-br from-blue-600/20 to-indigo-600/20 border-blue-500/30 hover:border-blue-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-blue-600/40 to-indigo-600/40 border-blue-400 ring-2 ring-blue-400/50',
+    iconClass: 'from-blue-500 to-indigo-600',
+    badgeClass: 'bg-blue-500',
+    startClass: 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 shadow-blue-900/30',
+    accentClass: 'text-blue-400'
+  },
+  {
+    mode: GameMode.STAFF_TO_NOTE,
+    title: 'Sight Reading',
+    description: 'See a note on the staff, name it',
+    iconPath: 'M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2',
+    cardClass: 'bg-gradient-to-br from-purple-600/20 to-pink-600/20 border-purple-500/30 hover:border-purple-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-purple-600/40 to-pink-600/40 border-purple-400 ring-2 ring-purple-400/50',
+    iconClass: 'from-purple-500 to-pink-600',
+    badgeClass: 'bg-purple-500',
+    startClass: 'bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 shadow-purple-900/30',
+    accentClass: 'text-purple-400'
+  },
+  {
+    mode: GameMode.STAFF_RHYTHM,
+    title: 'Rhythm Reading',
+    description: 'Read a passage to a click track, name each note on its beat',
+    iconPath: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+    cardClass: 'bg-gradient-to-br from-cyan-600/20 to-blue-600/20 border-cyan-500/30 hover:border-cyan-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-cyan-600/40 to-blue-600/40 border-cyan-400 ring-2 ring-cyan-400/50',
+    iconClass: 'from-cyan-500 to-blue-600',
+    badgeClass: 'bg-cyan-500',
+    startClass: 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 shadow-cyan-900/30',
+    accentClass: 'text-cyan-400'
+  },
+  {
+    mode: GameMode.NOTE_TO_STAFF,
+    title: 'Note Writing',
+    description: 'See a note name, write it on the staff',
+    iconPath: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
+    cardClass: 'bg-gradient-to-br from-rose-600/20 to-fuchsia-600/20 border-rose-500/30 hover:border-rose-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-rose-600/40 to-fuchsia-600/40 border-rose-400 ring-2 ring-rose-400/50',
+    iconClass: 'from-rose-500 to-fuchsia-600',
+    badgeClass: 'bg-rose-500',
+    startClass: 'bg-gradient-to-r from-rose-600 to-fuchsia-600 hover:from-rose-500 hover:to-fuchsia-500 shadow-rose-900/30',
+    accentClass: 'text-rose-400'
+  },
+  {
+    mode: GameMode.KEY_SIGNATURE_TO_KEY,
+    title: 'Key Signatures',
+    description: 'See a key signature, name the major or minor key',
+    iconPath: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3',
+    cardClass: 'bg-gradient-to-br from-fuchsia-600/20 to-purple-600/20 border-fuchsia-500/30 hover:border-fuchsia-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-fuchsia-600/40 to-purple-600/40 border-fuchsia-400 ring-2 ring-fuchsia-400/50',
+    iconClass: 'from-fuchsia-500 to-purple-600',
+    badgeClass: 'bg-fuchsia-500',
+    startClass: 'bg-gradient-to-r from-fuchsia-600 to-purple-600 hover:from-fuchsia-500 hover:to-purple-500 shadow-fuchsia-900/30',
+    accentClass: 'text-fuchsia-400'
+  },
+  {
+    mode: GameMode.STAFF_TO_FRETBOARD,
+    title: 'Staff to Fretboard',
+    description: 'See a note on the staff, tap where it is played',
+    iconPath: 'M4 6h16M4 10h16M4 14h16M4 18h16',
+    cardClass: 'bg-gradient-to-br from-amber-600/20 to-orange-600/20 border-amber-500/30 hover:border-amber-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-amber-600/40 to-orange-600/40 border-amber-400 ring-2 ring-amber-400/50',
+    iconClass: 'from-amber-500 to-orange-600',
+    badgeClass: 'bg-amber-500',
+    startClass: 'bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 shadow-amber-900/30',
+    accentClass: 'text-amber-400'
+  },
+  {
+    mode: GameMode.EAR_TO_FRETBOARD,
+    title: 'Ear to Fretboard',
+    description: 'Hear a note, tap where it is played',
+    iconPath: 'M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z',
+    cardClass: 'bg-gradient-to-br from-yellow-600/20 to-amber-600/20 border-yellow-500/30 hover:border-yellow-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-yellow-600/40 to-amber-600/40 border-yellow-400 ring-2 ring-yellow-400/50',
+    iconClass: 'from-yellow-500 to-amber-600',
+    badgeClass: 'bg-yellow-500',
+    startClass: 'bg-gradient-to-r from-yellow-600 to-amber-600 hover:from-yellow-500 hover:to-amber-500 shadow-yellow-900/30',
+    accentClass: 'text-yellow-400'
+  },
+  {
+    mode: GameMode.EAR_TO_NOTE,
+    title: 'Ear to Note',
+    description: 'Hear a note, name it',
+    iconPath: 'M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z',
+    cardClass: 'bg-gradient-to-br from-pink-600/20 to-rose-600/20 border-pink-500/30 hover:border-pink-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-pink-600/40 to-rose-600/40 border-pink-400 ring-2 ring-pink-400/50',
+    iconClass: 'from-pink-500 to-rose-600',
+    badgeClass: 'bg-pink-500',
+    startClass: 'bg-gradient-to-r from-pink-600 to-rose-600 hover:from-pink-500 hover:to-rose-500 shadow-pink-900/30',
+    accentClass: 'text-pink-400'
+  },
+  {
+    mode: GameMode.FRETBOARD_TO_STAFF,
+    title: 'Fretboard to Staff',
+    description: 'See a note on the fretboard, write it on the staff',
+    iconPath: 'M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z',
+    cardClass: 'bg-gradient-to-br from-sky-600/20 to-cyan-600/20 border-sky-500/30 hover:border-sky-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-sky-600/40 to-cyan-600/40 border-sky-400 ring-2 ring-sky-400/50',
+    iconClass: 'from-sky-500 to-cyan-600',
+    badgeClass: 'bg-sky-500',
+    startClass: 'bg-gradient-to-r from-sky-600 to-cyan-600 hover:from-sky-500 hover:to-cyan-500 shadow-sky-900/30',
+    accentClass: 'text-sky-400'
+  },
+  {
+    mode: GameMode.FRETBOARD_TO_INTERVAL,
+    title: 'Interval Trainer',
+    description: 'See two notes on the fretboard, name the interval',
+    iconPath: 'M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4',
+    cardClass: 'bg-gradient-to-br from-lime-600/20 to-green-600/20 border-lime-500/30 hover:border-lime-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-lime-600/40 to-green-600/40 border-lime-400 ring-2 ring-lime-400/50',
+    iconClass: 'from-lime-500 to-green-600',
+    badgeClass: 'bg-lime-500',
+    startClass: 'bg-gradient-to-r from-lime-600 to-green-600 hover:from-lime-500 hover:to-green-500 shadow-lime-900/30',
+    accentClass: 'text-lime-400'
+  },
+  {
+    mode: GameMode.FRETBOARD_TO_DEGREE,
+    title: 'Scale Degrees',
+    description: 'See a note on the fretboard, name its degree in the key',
+    iconPath: 'M4 20h4v-4H4v4zm6 0h4v-8h-4v8zm6 0h4V8h-4v12z',
+    cardClass: 'bg-gradient-to-br from-violet-600/20 to-indigo-600/20 border-violet-500/30 hover:border-violet-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-violet-600/40 to-indigo-600/40 border-violet-400 ring-2 ring-violet-400/50',
+    iconClass: 'from-violet-500 to-indigo-600',
+    badgeClass: 'bg-violet-500',
+    startClass: 'bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-500 hover:to-indigo-500 shadow-violet-900/30',
+    accentClass: 'text-violet-400'
+  },
+  {
+    mode: GameMode.FRETBOARD_TO_CHORD_TONE,
+    title: 'Chord Tones',
+    description: 'See a chord and a note, name its chord tone',
+    iconPath: 'M4 6h16M4 12h16M4 18h7',
+    cardClass: 'bg-gradient-to-br from-red-600/20 to-orange-600/20 border-red-500/30 hover:border-red-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-red-600/40 to-orange-600/40 border-red-400 ring-2 ring-red-400/50',
+    iconClass: 'from-red-500 to-orange-600',
+    badgeClass: 'bg-red-500',
+    startClass: 'bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-500 hover:to-orange-500 shadow-red-900/30',
+    accentClass: 'text-red-400'
+  },
+  {
+    mode: GameMode.FRETBOARD_TO_OCTAVES,
+    title: 'Octave Finder',
+    description: 'See a note on the fretboard, tap its octaves or unisons',
+    iconPath: 'M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4',
+    cardClass: 'bg-gradient-to-br from-teal-600/20 to-cyan-600/20 border-teal-500/30 hover:border-teal-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-teal-600/40 to-cyan-600/40 border-teal-400 ring-2 ring-teal-400/50',
+    iconClass: 'from-teal-500 to-cyan-600',
+    badgeClass: 'bg-teal-500',
+    startClass: 'bg-gradient-to-r from-teal-600 to-cyan-600 hover:from-teal-500 hover:to-cyan-500 shadow-teal-900/30',
+    accentClass: 'text-teal-400'
+  },
+  {
+    mode: GameMode.NOTE_TO_FRETBOARD,
+    title: 'Note Finder',
+    description: 'See a note name, tap every location of it',
+    iconPath: 'M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122',
+    cardClass: 'bg-gradient-to-br from-emerald-600/20 to-teal-600/20 border-emerald-500/30 hover:border-emerald-400/50',
+    cardSelectedClass: 'bg-gradient-to-br from-emerald-600/40 to-teal-600/40 border-emerald-400 ring-2 ring-emerald-400/50',
+    iconClass: 'from-emerald-500 to-teal-600',
+    badgeClass: 'bg-emerald-500',
+    startClass: 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 shadow-emerald-900/30',
+    accentClass: 'text-emerald-400'
+  }
+];
+
+const getMenuModeOption = (mode: GameMode) => MENU_MODE_OPTIONS.find(o => o.mode === mode) || MENU_MODE_OPTIONS[0];
+
+const isSamePosition = (a: { stringIndex: number; fretIndex: number }, b: { stringIndex: number; fretIndex: number }) =>
+  a.stringIndex === b.stringIndex && a.fretIndex === b.fretIndex;
+
+const isSamePitch = (a: StaffNoteData, b: StaffNoteData) => a.noteName === b.noteName && a.octave === b.octave;
+
+const pickClef = (preference: ClefPreference): 'treble' | 'bass' => {
+  if (preference === 'random') {
+    return Math.random() < 0.5 ? 'treble' : 'bass';
+  }
+  return preference;
+};
+
+// Clef for a note the player has to write: switches clefs when it would sit beyond the ledger lines
+const pickClefForEntry = (preference: ClefPreference, writtenPitch: StaffNoteData): 'treble' | 'bass' => {
+  const clef = pickClef(preference);
+  if (fitsOnStaff(writtenPitch, clef)) return clef;
+  return clef === 'treble' ? 'bass' : 'treble';
+};
+
+// Adds one result to a stat entry (position, interval, ...)
+const updateStat = (stat: NoteStat | undefined, isCorrect: boolean, timeTaken: number, isTimeout: boolean): NoteStat => {
+  const current = stat || { correct: 0, incorrect: 0, timeouts: 0, totalTimeMs: 0, lastSeen: 0 };
+  const now = Date.now();
+  return {
+    correct: current.correct + (isCorrect ? 1 : 0),
+    incorrect: current.incorrect + ((!isCorrect && !isTimeout) ? 1 : 0),
+    timeouts: current.timeouts + (isTimeout ? 1 : 0),
+    totalTimeMs: current.totalTimeMs + timeTaken,
+    lastSeen: now,
+    ...scheduleReview(stat, getReviewGrade(isCorrect, timeTaken, isTimeout), now)
+  };
+};
+
+// Adaptive selection weight: unseen, inaccurate, slow and stale items come up more often
+const getStatWeight = (stat: NoteStat | undefined, now: number): number => {
+  if (!stat) return 100;
+
+  const totalAttempts = stat.correct + stat.incorrect + stat.timeouts;
+  if (totalAttempts === 0) return 100;
+
+  const accuracy = stat.correct / totalAttempts; 
+  const avgTime = stat.totalTimeMs / totalAttempts; 
+  const timeSinceLastSeen = now - stat.lastSeen;
+
+  const accuracyWeight = (1 - accuracy) * 50; 
+  const speedWeight = (Math.min(avgTime, 5000) / 5000) * 30;
+  const recencyWeight = (Math.min(timeSinceLastSeen, 300000) / 300000) * 40;
+  const baseWeight = 5; 
+
+  return baseWeight + accuracyWeight + speedWeight + recencyWeight;
+};
+
+// Heatmap color and label of one stat entry for the chosen metric
+const getHeatmapCell = (stat: NoteStat | undefined, metric: HeatmapMetric): HeatmapCell => {
+  const total = stat ? stat.correct + stat.incorrect + stat.timeouts : 0;
+  if (!stat || total === 0) {
+    return { color: 'rgba(50,50,50,0.5)', label: '-', textColor: 'gray' };
+  }
+
+  // Reduced saturation and brightness for background to allow Note Badge to pop
+  if (metric === HeatmapMetric.ACCURACY) {
+    const acc = stat.correct / total;
+    const hue = acc * 120;
+    return { color: `hsla(${hue}, 50%, 30%, 0.95)`, label: `${Math.round(acc * 100)}%`, textColor: 'white' };
+  }
+  if (metric === HeatmapMetric.SPEED) {
+    const avg = stat.totalTimeMs / total;
+    const clamped = Math.max(1000, Math.min(5000, avg));
+    const factor = 1 - ((clamped - 1000) / 4000);
+    const hue = factor * 120;
+    return { color: `hsla(${hue}, 50%, 30%, 0.95)`, label: `${(avg/1000).toFixed(1)}s`, textColor: 'white' };
+  }
+  const factor = Math.min(total, 20) / 20;
+  const lightness = 20 + (factor * 25);
+  return { color: `hsla(210, 50%, ${lightness}%, 0.95)`, label: `${total}`, textColor: 'white' };
 };
 
+// Staff stats are kept per sounding pitch (sharp spelling, so Gb3 and F#3 share an entry) and clef
+const getStaffStatKey = (clef: 'treble' | 'bass', note: StaffNoteData) => {
+  const semitones = noteToSemitones(note);
+  return `${clef}-${NOTES_SHARP[((semitones % 12) + 12) % 12]}${Math.floor(semitones / 12)}`;
+};
+
+// Keyboard shown by the staff heatmap: the sounding range of a 24-fret guitar
+const STAFF_HEATMAP_LOW = noteToSemitones({ noteName: 'E', octave: 2 });
+const STAFF_HEATMAP_HIGH = noteToSemitones({ noteName: 'E', octave: 6 });
+
 const getHealthColorClass = (current: number, max: number) => {
   const percentage = (current / max) * 100;
   if (percentage > 60) return 'bg-green-500';
@@ -62,6 +494,8 @@ const App: React.FC = () => {
   const [showSettings, setShowSettings] = useState<boolean>(false);
   
   // Guitar Config State
+  const [learners, setLearners] = useState<LearnerProfile[]>(() => loadLearners());
+  const [activeLearnerId, setActiveLearnerId] = useState<string>(getActiveLearnerId);
   const [guitarProfiles, setGuitarProfiles] = useState<GuitarProfile[]>([DEFAULT_GUITAR]);
   const [activeGuitarId, setActiveGuitarId] = useState<string>('default');
   const [showGuitarSettings, setShowGuitarSettings] = useState<boolean>(false);
@@ -72,11 +506,38 @@ const App: React.FC = () => {
 
   // Stats / Adaptive State
   const [noteStats, setNoteStats] = useState<NoteStatsMap>({});
+  const [intervalStats, setIntervalStats] = useState<NoteStatsMap>({}); // Key: interval name (e.g. "m3")
+  const [staffStats, setStaffStats] = useState<NoteStatsMap>({}); // Key: "clef-pitch" (e.g. "treble-F#4"), or "key-answer" for key signatures
   const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>(HeatmapMetric.SPEED);
-  const [statsTab, setStatsTab] = useState<'heatmap' | 'timeline'>('heatmap');
+  const [statsTab, setStatsTab] = useState<'heatmap' | 'staff' | 'confusion' | 'timeline'>('heatmap');
+  const [staffHeatmapClef, setStaffHeatmapClef] = useState<'treble' | 'bass'>('treble');
+  const [confusionString, setConfusionString] = useState<number | null>(null); // null: all strings
+
+  // Backup State
+  const [showBackupPanel, setShowBackupPanel] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<BackupFile | null>(null); // Parsed file awaiting merge/replace
+  const [backupErrors, setBackupErrors] = useState<string[]>([]);
+
+  // Sync State
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(() => loadStored('syncSettings'));
+  const [syncStatus, setSyncStatus] = useState<'IDLE' | 'SYNCING' | 'ERROR'>('IDLE');
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncRequest, setSyncRequest] = useState<number>(0); // Bumped to sync with the state of the next render
+  const [syncEndpointInput, setSyncEndpointInput] = useState<string>('');
+  const [syncTokenInput, setSyncTokenInput] = useState<string>('');
+  const syncSettingsRef = useRef<SyncSettings | null>(syncSettings);
+  const syncOutboxRef = useRef<SyncOutbox>(loadStored('syncOutbox'));
+  const isSyncingRef = useRef<boolean>(false);
+  const isSyncPendingRef = useRef<boolean>(false); // Asked for while a sync was in flight; runs once it ends
+  // The latest history, stats and guitars for a sync response to merge into; set along with their state
+  const historyRef = useRef<ScoreRecord[]>([]);
+  const noteStatsRef = useRef<NoteStatsMap>({});
+  const guitarProfilesRef = useRef<GuitarProfile[]>([DEFAULT_GUITAR]);
   
   // Timeline Scrubber State (indices of history)
   const [timelineWindow, setTimelineWindow] = useState<{start: number, end: number}>({start: 0, end: 0});
+  const [windowStats, setWindowStats] = useState<NoteStatsMap | null>(null); // Fretboard stats of the window, null without history
+  const [positionDetail, setPositionDetail] = useState<{ tuningName: string; stringIndex: number; fretIndex: number; correct: number; total: number; lastAskedAt: number | null } | null>(null); // Heatmap cell picked, over all history
 
   // New state for blocking input and visual feedback
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
@@ -85,10 +546,24 @@ const App: React.FC = () => {
   // Staff Game Mode State
   const [targetStaffNote, setTargetStaffNote] = useState<StaffNoteData | null>(null);
   const [targetStaffNotes, setTargetStaffNotes] = useState<StaffNoteData[]>([]); // For multi-note mode
+  const [placedStaffNote, setPlacedStaffNote] = useState<StaffNoteData | null>(null); // Fretboard to Staff: the note written by the player
+  const [keySignatureRound, setKeySignatureRound] = useState<KeySignatureRound | null>(null); // Key signature drill
+  const [inputError, setInputError] = useState<string | null>(null); // Microphone could not be opened
   const [activeStaffNoteIndex, setActiveStaffNoteIndex] = useState<number>(0);  // Current note in sequence
   const [currentGameMode, setCurrentGameMode] = useState<GameMode>(GameMode.FRETBOARD_TO_NOTE);
   const [currentClef, setCurrentClef] = useState<'treble' | 'bass'>('treble'); // Active clef for current round
 
+  // Interval Drill State
+  const [intervalRoot, setIntervalRoot] = useState<Note | null>(null);
+  const [targetInterval, setTargetInterval] = useState<string | null>(null);
+
+  // Chord-Tone Drill State
+  const [targetChord, setTargetChord] = useState<{ root: string; quality: ChordQuality } | null>(null);
+
+  // Tap-to-answer State (positions the player must find this round)
+  const [targetPositions, setTargetPositions] = useState<Note[]>([]);
+  const [markedPositions, setMarkedPositions] = useState<MarkedPosition[]>([]);
+
   // Menu State: selected mode before starting
   const [selectedMenuMode, setSelectedMenuMode] = useState<GameMode | null>(null);
 
@@ -98,7 +573,11 @@ const App: React.FC = () => {
     noteDurations: 'all',  // Default to all note types
     noteCount: 1,
     noteRange: { lowNote: 'E2', highNote: 'E5' },  // Full standard guitar range
-    useGuitarTransposition: true  // Standard guitar notation: display octave higher than sounding pitch
+    useGuitarTransposition: true,  // Standard guitar notation: display octave higher than sounding pitch
+    timeSignature: '4/4',
+    maxLeap: 2,  // Steps and skips of a third
+    keySignatureModes: false,
+    bpm: 60
   });
 
   const isMobile = useIsMobile();
@@ -107,25 +586,7 @@ const App: React.FC = () => {
   const activeGuitar = guitarProfiles.find(p => p.id === activeGuitarId) || DEFAULT_GUITAR;
 
   // Game Configuration State with Persistence
-  const [gameConfig, setGameConfig] = useState<GameConfig>(() => {
-    if (typeof window !== 'undefined') {
-      const savedConfig = localStorage.getItem('fretmaster_game_config');
-      if (savedConfig) {
-        try {
-          return { ...DEFAULT_GAME_CONFIG, ...JSON.parse(savedConfig) };
-        } catch (e) {
-          console.error("Failed to parse saved game config", e);
-        }
-      } else {
-        // Fallback for legacy adaptive learning key
-        const savedAdaptive = localStorage.getItem('fretmaster_adaptive_learning');
-        if (savedAdaptive !== null) {
-          return { ...DEFAULT_GAME_CONFIG, adaptiveLearning: savedAdaptive === 'true' };
-        }
-      }
-    }
-    return DEFAULT_GAME_CONFIG;
-  });
+  const [gameConfig, setGameConfig] = useState<GameConfig>(() => loadGameConfig(DEFAULT_GAME_CONFIG));
 
   // Study Mode State
   const [studyConfig, setStudyConfig] = useState<StudyConfig>({
@@ -146,6 +607,15 @@ const App: React.FC = () => {
   const targetStaffNoteRef = useRef<StaffNoteData | null>(null);
   const gameStateRef = useRef<GameState>(GameState.MENU);
   const noteStartTimeRef = useRef<number>(0);
+  const targetPositionsRef = useRef<Note[]>([]);
+  const markedPositionsRef = useRef<MarkedPosition[]>([]);
+  const targetIntervalRef = useRef<string | null>(null);
+  const targetChordRef = useRef<{ root: string; quality: ChordQuality } | null>(null);
+  const keySignatureRoundRef = useRef<KeySignatureRound | null>(null);
+  const targetStaffNotesRef = useRef<StaffNoteData[]>([]);
+  const activeStaffNoteIndexRef = useRef<number>(0);
+  const rhythmRoundRef = useRef<RhythmRound | null>(null);
+  const rhythmTickRef = useRef<() => void>(() => {});
   
   // Session tracking ref
   const sessionInteractionsRef = useRef<NoteInteraction[]>([]);
@@ -162,6 +632,31 @@ const App: React.FC = () => {
     targetStaffNoteRef.current = targetStaffNote;
   }, [targetStaffNote]);
 
+  useEffect(() => {
+    targetPositionsRef.current = targetPositions;
+  }, [targetPositions]);
+
+  useEffect(() => {
+    targetIntervalRef.current = targetInterval;
+  }, [targetInterval]);
+
+  useEffect(() => {
+    targetChordRef.current = targetChord;
+  }, [targetChord]);
+
+  useEffect(() => {
+    keySignatureRoundRef.current = keySignatureRound;
+  }, [keySignatureRound]);
+
+  useEffect(() => {
+    targetStaffNotesRef.current = targetStaffNotes;
+    activeStaffNoteIndexRef.current = activeStaffNoteIndex;
+  }, [targetStaffNotes, activeStaffNoteIndex]);
+
+  useEffect(() => {
+    markedPositionsRef.current = markedPositions;
+  }, [markedPositions]);
+
   useEffect(() => {
     gameStateRef.current = gameState;
     if (gameState !== GameState.PLAYING && gameState !== GameState.PLAYING_STAFF) {
@@ -169,69 +664,304 @@ const App: React.FC = () => {
     }
   }, [gameState]);
 
-  // Save Game Config whenever it changes
-  useEffect(() => {
-    localStorage.setItem('fretmaster_game_config', JSON.stringify(gameConfig));
-  }, [gameConfig]);
-
-  // Load persistence (History, Guitars, etc.)
-  useEffect(() => {
-    const savedHistory = localStorage.getItem('fretmaster_history');
-    if (savedHistory) {
-      try {
-        const parsedHistory = JSON.parse(savedHistory);
-        setHistory(parsedHistory);
-        setTimelineWindow({ start: 0, end: parsedHistory.length > 0 ? parsedHistory.length - 1 : 0 });
-        // NOTE: History-based startingFret override removed to respect user settings.
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
+  // Sounding pitch of what the player is currently asked about (read from refs so timer callbacks see the live round)
+  const getCurrentTargetPitch = (): StaffNoteData | null => {
+    if (gameStateRef.current === GameState.PLAYING_STAFF) {
+      const passage = targetStaffNotesRef.current;
+      return passage.length > 0 ? passage[activeStaffNoteIndexRef.current] || null : targetStaffNoteRef.current;
     }
+    const target = targetNoteRef.current;
+    if (!target) return null;
+    return fretboardToStaffNote(activeGuitar.tuning[target.stringIndex], target.fretIndex);
+  };
 
-    const savedGuitars = localStorage.getItem('fretmaster_guitars');
-    if (savedGuitars) {
-      try {
-         const parsedGuitars = JSON.parse(savedGuitars);
-         if (Array.isArray(parsedGuitars) && parsedGuitars.length > 0) {
-           setGuitarProfiles(parsedGuitars);
-         }
-      } catch (e) { console.error("Failed to parse guitars", e); }
-    }
+  // Plays the current target if the playback setting asks for it at this moment
+  const playTargetPitch = (moment: 'REVEAL' | 'CORRECT' | 'MISTAKE') => {
+    const { playback } = gameConfig;
+    if (playback === 'NEVER') return;
+    if (moment === 'REVEAL' && playback !== 'ON_REVEAL') return;
+    // The microphone would hear the revealed note and answer it by itself
+    if (moment === 'REVEAL' && gameConfig.inputMethod === 'MICROPHONE') return;
+    if (moment === 'CORRECT' && playback !== 'ON_CORRECT') return;
+    const pitch = getCurrentTargetPitch();
+    if (pitch) playPitch(pitch);
+  };
+
+  // Ear training reference: the lowest open string of the active guitar
+  const getEarReferencePitch = (): StaffNoteData => {
+    const tuning = activeGuitar.tuning;
+    return fretboardToStaffNote(Math.min(...tuning), 0);
+  };
 
-    const savedActiveGuitarId = localStorage.getItem('fretmaster_active_guitar');
-    if (savedActiveGuitarId) {
-       setActiveGuitarId(savedActiveGuitarId);
+  // Ear training prompt: the optional reference note, then the hidden target
+  const playEarPrompt = () => {
+    const target = getCurrentTargetPitch();
+    if (!target) return;
+    if (gameConfig.earReference) {
+      playPitch(getEarReferencePitch());
+      playPitch(target, EAR_REFERENCE_GAP_SECONDS);
+    } else {
+      playPitch(target);
     }
-    
-    const savedAccidentalPref = localStorage.getItem('fretmaster_accidental_pref');
-    if (savedAccidentalPref === 'FLAT' || savedAccidentalPref === 'SHARP') {
-      setAccidentalPreference(savedAccidentalPref as AccidentalStyle);
+  };
+
+  // Reveal playback: sound each new target as soon as it is shown (ear training always plays it)
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.PLAYING_STAFF) return;
+    if (EAR_TRAINING_MODES.includes(currentGameMode)) {
+      if (gameState === GameState.PLAYING && targetNote) playEarPrompt();
+      return;
     }
+    playTargetPitch('REVEAL');
+  }, [targetNote, targetStaffNote, targetStaffNotes, activeStaffNoteIndex]);
+
+  // Save Game Config whenever it changes
+  useEffect(() => {
+    saveStored('gameConfig', gameConfig);
+  }, [gameConfig]);
+
+  // Load persistence (History, Guitars, etc.) of the active learner; also re-run after a backup is imported or the learner changes.
+  // Anything the learner has not saved goes back to its default
+  const loadSavedData = () => {
+    const learnerId = getActiveLearnerId();
+    loadHistory()
+      .then(savedHistory => {
+        if (getActiveLearnerId() !== learnerId) return; // Switched again while loading
+        historyRef.current = savedHistory;
+        setHistory(savedHistory);
+        setTimelineWindow({ start: 0, end: savedHistory.length > 0 ? savedHistory.length - 1 : 0 });
+        // NOTE: History-based startingFret override removed to respect user settings.
+        // Sync only once history is loaded, so pulled sessions are compared against all of it
+        setSyncRequest(n => n + 1);
+      })
+      .catch(e => console.error("Failed to load history", e));
+
+    const savedGuitars = loadStored('guitars');
+    guitarProfilesRef.current = savedGuitars.length > 0 ? savedGuitars : [DEFAULT_GUITAR];
+    setGuitarProfiles(guitarProfilesRef.current);
+    setActiveGuitarId(loadStored('activeGuitarId') || DEFAULT_GUITAR.id);
+    setAccidentalPreference(loadStored('accidentalPreference') || 'SHARP');
     
     // Load Note Stats
-    const savedStats = localStorage.getItem('fretmaster_note_stats');
-    if (savedStats) {
-       try {
-         setNoteStats(JSON.parse(savedStats));
-       } catch (e) { console.error("Failed to parse stats", e); }
+    noteStatsRef.current = loadStored('noteStats');
+    setNoteStats(noteStatsRef.current);
+    setIntervalStats(loadStored('intervalStats'));
+    setStaffStats(loadStored('staffStats'));
+
+    const savedSyncSettings = loadStored('syncSettings');
+    syncSettingsRef.current = savedSyncSettings;
+    setSyncSettings(savedSyncSettings);
+    syncOutboxRef.current = loadStored('syncOutbox');
+    setSyncStatus('IDLE');
+  };
+
+  useEffect(() => {
+    loadSavedData();
+  }, []);
+
+  // --- LEARNERS ---
+
+  const switchLearner = (learnerId: string) => {
+    // A sync in flight belongs to the current learner; its result must land in their outbox, so the picker is
+    // locked until it ends
+    if (learnerId === getActiveLearnerId() || isSyncingRef.current) return;
+    setActiveLearner(learnerId);
+    setActiveLearnerId(learnerId);
+    historyRef.current = [];
+    setHistory([]);
+    loadSavedData();
+    setGameConfig(loadGameConfig(DEFAULT_GAME_CONFIG));
+    setSelectedMenuMode(null);
+  };
+
+  const createLearner = (name: string) => {
+    if (isSyncingRef.current) return;
+    const newLearners = [...learners, { id: Date.now().toString(), name, createdAt: Date.now() }];
+    setLearners(newLearners);
+    saveLearners(newLearners);
+    switchLearner(newLearners[newLearners.length - 1].id);
+  };
+
+  const renameLearner = (learnerId: string, name: string) => {
+    const newLearners = learners.map(learner => (learner.id === learnerId ? { ...learner, name } : learner));
+    setLearners(newLearners);
+    saveLearners(newLearners);
+  };
+
+  const deleteLearner = (learnerId: string) => {
+    const newLearners = learners.filter(learner => learner.id !== learnerId);
+    if (newLearners.length === 0 || isSyncingRef.current) return;
+    setLearners(newLearners);
+    saveLearners(newLearners);
+    if (learnerId === getActiveLearnerId()) switchLearner(newLearners[0].id);
+    removeLearnerData(learnerId);
+    deleteLearnerHistory(learnerId).catch(e => console.error("Failed to delete learner history", e));
+  };
+
+  // --- SYNC ---
+
+  const saveSyncSettings = (settings: SyncSettings | null) => {
+    syncSettingsRef.current = settings;
+    setSyncSettings(settings);
+    saveStored('syncSettings', settings);
+  };
+
+  // Changes are only queued while a sync server is set up; connecting queues everything
+  const queueSyncChange = (update: (outbox: SyncOutbox) => SyncOutbox) => {
+    if (!syncSettingsRef.current) return;
+    syncOutboxRef.current = update(syncOutboxRef.current);
+    saveStored('syncOutbox', syncOutboxRef.current);
+  };
+
+  const connectSync = () => {
+    const endpoint = syncEndpointInput.trim();
+    saveSyncSettings(createSyncSettings(endpoint, syncTokenInput.trim()));
+    // A server synced with before already holds this device's earlier answers
+    syncOutboxRef.current = queueEverything(history, noteStats, guitarProfiles, Date.now(), loadStored('syncedCounts')[endpoint]);
+    saveStored('syncOutbox', syncOutboxRef.current);
+    setSyncTokenInput('');
+    setSyncRequest(n => n + 1);
+  };
+
+  const disconnectSync = () => {
+    saveSyncSettings(null);
+    syncOutboxRef.current = EMPTY_OUTBOX;
+    saveStored('syncOutbox', EMPTY_OUTBOX);
+    setSyncStatus('IDLE');
+    setSyncError(null);
+  };
+
+  // Pushes the outbox and pulls what other devices stored; a failure leaves the outbox for the next attempt
+  useEffect(() => {
+    const settings = syncSettingsRef.current;
+    if (syncRequest === 0 || !settings) return;
+    if (isSyncingRef.current) {
+      isSyncPendingRef.current = true;
+      return;
     }
+
+    const { request, sent } = buildSyncRequest(settings, syncOutboxRef.current, historyRef.current, noteStatsRef.current, guitarProfilesRef.current);
+    isSyncingRef.current = true;
+    setSyncStatus('SYNCING');
+
+    sendSyncRequest(settings, request)
+      .then(response => {
+        if (syncSettingsRef.current !== settings) return; // Disconnected or connected elsewhere while in flight
+        const syncedCounts = loadStored('syncedCounts');
+        const { state, savedSessions } = applySyncResponse({
+          settings,
+          outbox: syncOutboxRef.current,
+          history: historyRef.current,
+          noteStats: noteStatsRef.current,
+          guitars: guitarProfilesRef.current,
+          serverCounts: syncedCounts[settings.endpoint] || {}
+        }, sent, response, Date.now());
+
+        syncOutboxRef.current = state.outbox;
+        saveStored('syncOutbox', state.outbox);
+        if (savedSessions.length > 0) {
+          saveSessions(savedSessions, state.history).catch(e => console.error("Failed to save synced sessions", e));
+          historyRef.current = state.history;
+          setHistory(state.history);
+          setTimelineWindow({ start: 0, end: state.history.length - 1 });
+        }
+        noteStatsRef.current = state.noteStats;
+        setNoteStats(state.noteStats);
+        saveStored('noteStats', state.noteStats);
+        if (state.guitars !== guitarProfilesRef.current) {
+          guitarProfilesRef.current = state.guitars;
+          setGuitarProfiles(state.guitars);
+          saveStored('guitars', state.guitars);
+        }
+        saveStored('syncedCounts', { ...syncedCounts, [settings.endpoint]: state.serverCounts });
+        saveSyncSettings(state.settings);
+        setSyncStatus('IDLE');
+        setSyncError(null);
+      })
+      .catch(e => {
+        console.error("Sync failed", e);
+        setSyncStatus('ERROR');
+        setSyncError(e instanceof Error ? e.message : String(e));
+      })
+      .finally(() => {
+        isSyncingRef.current = false;
+        // Changes queued while this request was in flight go out now rather than with the next unrelated trigger
+        if (isSyncPendingRef.current) {
+          isSyncPendingRef.current = false;
+          setSyncRequest(n => n + 1);
+        }
+      });
+  }, [syncRequest]);
+
+  // Push what was queued offline as soon as the connection is back
+  useEffect(() => {
+    const handleOnline = () => setSyncRequest(n => n + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, []);
 
+  // --- BACKUP ---
+
+  const exportBackup = () => {
+    const day = new Date().toISOString().slice(0, 10);
+    createBackup()
+      .then(backup => downloadFile(`fretude-backup-${day}.json`, JSON.stringify(backup, null, 2), 'application/json'))
+      .catch(e => console.error("Failed to create backup", e));
+  };
+
+  const exportHistoryCsv = () => {
+    const day = new Date().toISOString().slice(0, 10);
+    downloadFile(`fretude-history-${day}.csv`, interactionsToCsv(history), 'text/csv');
+  };
+
+  const handleBackupFile = (file: File) => {
+    file.text()
+      .then(text => {
+        const { backup, errors } = parseBackup(text);
+        setPendingImport(backup);
+        setBackupErrors(errors);
+      })
+      .catch(e => {
+        console.error("Failed to read backup file", e);
+        setBackupErrors(['The file could not be read']);
+      });
+  };
+
+  // Merge keeps current settings and adds what the backup has; replace restores the backup as it was
+  const applyImport = (mode: 'MERGE' | 'REPLACE') => {
+    if (!pendingImport) return;
+    const backup = pendingImport;
+    setPendingImport(null);
+    const data = mode === 'MERGE'
+      ? createBackup().then(current => mergeBackup(current.data, backup.data))
+      : Promise.resolve(backup.data);
+    data
+      .then(restored => writeBackup(restored, backup.schemaVersion))
+      .then(() => {
+        loadSavedData();
+        setGameConfig(loadGameConfig(DEFAULT_GAME_CONFIG));
+      })
+      .catch(e => {
+        console.error("Failed to restore backup", e);
+        setBackupErrors(['The backup could not be restored']);
+      });
+  };
+
   const saveGuitars = (profiles: GuitarProfile[], activeId: string) => {
+     const now = Date.now();
+     profiles
+       .filter(profile => JSON.stringify(profile) !== JSON.stringify(guitarProfiles.find(p => p.id === profile.id)))
+       .forEach(profile => queueSyncChange(outbox => queueGuitar(outbox, profile.id, now)));
+     guitarProfilesRef.current = profiles;
      setGuitarProfiles(profiles);
      setActiveGuitarId(activeId);
-     localStorage.setItem('fretmaster_guitars', JSON.stringify(profiles));
-     localStorage.setItem('fretmaster_active_guitar', activeId);
+     saveStored('guitars', profiles);
+     saveStored('activeGuitarId', activeId);
   };
   
   const saveAccidentalPreference = (pref: AccidentalStyle) => {
     setAccidentalPreference(pref);
-    localStorage.setItem('fretmaster_accidental_pref', pref);
-  };
-
-  const saveNoteStats = (stats: NoteStatsMap) => {
-    setNoteStats(stats);
-    localStorage.setItem('fretmaster_note_stats', JSON.stringify(stats));
+    saveStored('accidentalPreference', pref);
   };
 
   const cleanupTimers = () => {
@@ -243,42 +973,81 @@ const App: React.FC = () => {
       clearTimeout(feedbackTimeoutRef.current);
       feedbackTimeoutRef.current = null;
     }
+    if (rhythmRoundRef.current) {
+      rhythmRoundRef.current.stopClicks();
+      rhythmRoundRef.current = null;
+    }
   };
 
   // --- STATS & ALGORITHM LOGIC ---
 
-  const recordNoteResult = (note: Note, isCorrect: boolean, timeTaken: number, isTimeout: boolean = false) => {
+  const recordNoteResult = (note: Note, isCorrect: boolean, timeTaken: number, isTimeout: boolean = false, answer?: string) => {
      const tuningId = activeGuitar.tuningName; 
      const key = `${tuningId}-${note.stringIndex}-${note.fretIndex}`;
      
      // 1. Update Global Stats for Algo
-     const currentStat = noteStats[key] || {
-       correct: 0,
-       incorrect: 0,
-       timeouts: 0,
-       totalTimeMs: 0,
-       lastSeen: 0
-     };
-
-     const updatedStat: NoteStat = {
-       correct: currentStat.correct + (isCorrect ? 1 : 0),
-       incorrect: currentStat.incorrect + ((!isCorrect && !isTimeout) ? 1 : 0),
-       timeouts: currentStat.timeouts + (isTimeout ? 1 : 0),
-       totalTimeMs: currentStat.totalTimeMs + timeTaken,
-       lastSeen: Date.now()
-     };
-
-     const newStats = { ...noteStats, [key]: updatedStat };
-     saveNoteStats(newStats);
+     // From the ref: tap modes can record several positions within one event
+     const newStats = { ...noteStatsRef.current, [key]: updateStat(noteStatsRef.current[key], isCorrect, timeTaken, isTimeout) };
+     noteStatsRef.current = newStats;
+     setNoteStats(newStats);
+     saveStored('noteStats', newStats);
+     
+     queueSyncChange(outbox => queueAnswer(outbox, key, isCorrect, isTimeout, timeTaken));
      
      // 2. Log Session Interaction
-     sessionInteractionsRef.current.push({
-       note,
-       isCorrect,
-       isTimeout,
-       timeTakenMs: timeTaken,
-       timestamp: Date.now()
+     logSessionInteraction({ note, answer, isCorrect, isTimeout, timeTakenMs: timeTaken });
+  };
+
+  // Appends to the session log that is saved with the score record
+  const logSessionInteraction = (interaction: Omit<NoteInteraction, 'timestamp'>) => {
+     sessionInteractionsRef.current.push({ ...interaction, timestamp: Date.now() });
+  };
+
+  // Interval results are kept per interval rather than per position
+  const recordIntervalResult = (interval: string, target: Note, isCorrect: boolean, timeTaken: number, isTimeout: boolean = false, answer?: string) => {
+     setIntervalStats(prevStats => {
+       const newStats = { ...prevStats, [interval]: updateStat(prevStats[interval], isCorrect, timeTaken, isTimeout) };
+       saveStored('intervalStats', newStats);
+       return newStats;
+     });
+
+     logSessionInteraction({ note: target, interval, answer, isCorrect, isTimeout, timeTakenMs: timeTaken });
+  };
+
+  // Staff results are kept per pitch and clef, since there is no position
+  const recordStaffResult = (note: StaffNoteData, isCorrect: boolean, timeTaken: number, isTimeout: boolean = false, timingOffsetMs?: number) => {
+     const key = getStaffStatKey(currentClef, note);
+     setStaffStats(prevStats => {
+       const newStats = { ...prevStats, [key]: updateStat(prevStats[key], isCorrect, timeTaken, isTimeout) };
+       saveStored('staffStats', newStats);
+       return newStats;
+     });
+
+     logSessionInteraction({ pitch: `${note.noteName}${note.octave}`, isCorrect, isTimeout, timeTakenMs: timeTaken, timingOffsetMs });
+  };
+
+  // Key signature results are kept per expected key or mode, alongside the staff stats
+  const recordKeySignatureResult = (round: KeySignatureRound, isCorrect: boolean, timeTaken: number, isTimeout: boolean = false, answer?: string) => {
+     const key = `key-${round.answer}`;
+     setStaffStats(prevStats => {
+       const newStats = { ...prevStats, [key]: updateStat(prevStats[key], isCorrect, timeTaken, isTimeout) };
+       saveStored('staffStats', newStats);
+       return newStats;
      });
+
+     logSessionInteraction({ keySignature: round.answer, answer, isCorrect, isTimeout, timeTakenMs: timeTaken });
+  };
+
+  // Pitch classes wrongly answered for a note, most frequent first, from history and the session so far
+  const getConfusedPitchClasses = (noteName: string): number[] => {
+     const asked = getPitchClass(noteName);
+     const session = NOTE_NAMING_MODES.includes(currentGameMode) ? sessionInteractionsRef.current : [];
+     const row = getConfusionCounts([...getNoteNamingInteractions(history), ...session], null)[asked];
+     return row
+       .map((count, answered) => ({ count, answered }))
+       .filter(({ count, answered }) => count > 0 && answered !== asked)
+       .sort((a, b) => b.count - a.count)
+       .map(({ answered }) => answered);
   };
 
   const getSmartNextNote = (validNotes: Note[]): Note => {
@@ -288,130 +1057,168 @@ const App: React.FC = () => {
      }
 
      const tuningId = activeGuitar.tuningName;
-     const now = Date.now();
-     
-     const weightedNotes = validNotes.map(note => {
-        const key = `${tuningId}-${note.stringIndex}-${note.fretIndex}`;
-        const stat = noteStats[key];
-
-        // Ensure we don't repeat the exact same note immediately if possible
-        if (targetNoteRef.current && 
-            targetNoteRef.current.stringIndex === note.stringIndex && 
-            targetNoteRef.current.fretIndex === note.fretIndex &&
-            validNotes.length > 1) {
-            return { note, weight: 0 };
-        }
 
-        if (!stat) return { note, weight: 100 };
+     // Ensure we don't repeat the exact same note immediately if possible
+     const candidates = validNotes.length > 1 && targetNoteRef.current
+        ? validNotes.filter(note => !isSamePosition(note, targetNoteRef.current!))
+        : validNotes;
 
-        const totalAttempts = stat.correct + stat.incorrect + stat.timeouts;
-        if (totalAttempts === 0) return { note, weight: 100 };
+     // Spaced repetition: due and overdue positions first, then new ones, then the soonest due
+     return selectNextReview(candidates, note => noteStats[`${tuningId}-${note.stringIndex}-${note.fretIndex}`], Date.now())
+        || validNotes[validNotes.length - 1];
+  };
 
-        const accuracy = stat.correct / totalAttempts; 
-        const avgTime = stat.totalTimeMs / totalAttempts; 
-        const timeSinceLastSeen = now - stat.lastSeen;
+  // Every position on every string up to the current max fret, ignoring the focus mode
+  const getPositionsInRange = (): Note[] => {
+     const positions: Note[] = [];
+     activeGuitar.tuning.forEach((offset, stringIndex) => {
+       for (let fretIndex = 0; fretIndex <= currentMaxFret; fretIndex++) {
+         positions.push({ stringIndex, fretIndex, noteName: getNoteAtPosition(offset, fretIndex) });
+       }
+     });
+     return positions;
+  };
 
-        const accuracyWeight = (1 - accuracy) * 50; 
-        const speedWeight = (Math.min(avgTime, 5000) / 5000) * 30;
-        const recencyWeight = (Math.min(timeSinceLastSeen, 300000) / 300000) * 40;
-        const baseWeight = 5; 
+  // Octave finder: the other positions in range with the same pitch class, or the same exact pitch for unisons
+  const findOctaveMatches = (note: Note, positions: Note[]): Note[] => {
+     const tuning = activeGuitar.tuning;
+     const pitch = fretboardToStaffNote(tuning[note.stringIndex], note.fretIndex);
+     return positions.filter(p => {
+       if (isSamePosition(p, note) || p.noteName !== note.noteName) return false;
+       return gameConfig.octaveMatch !== 'UNISON' || isSamePitch(fretboardToStaffNote(tuning[p.stringIndex], p.fretIndex), pitch);
+     });
+  };
 
-        return { note, weight: baseWeight + accuracyWeight + speedWeight + recencyWeight };
+  // Interval drill: picks the interval first (weighted by per-interval stats), then a root/target pair forming it
+  const pickIntervalPair = (validNotes: Note[]): { root: Note; target: Note; interval: string } | null => {
+     const tuning = activeGuitar.tuning;
+     const targets = getPositionsInRange();
+
+     const findPairs = (maxFretSpan: number) => {
+       const pairsByInterval: Record<string, { root: Note; target: Note }[]> = {};
+       validNotes.forEach(root => {
+         const rootPitch = getPositionPitch(tuning[root.stringIndex], root.fretIndex);
+         targets.forEach(target => {
+           if (Math.abs(target.fretIndex - root.fretIndex) > maxFretSpan) return;
+           const interval = getIntervalName(getPositionPitch(tuning[target.stringIndex], target.fretIndex) - rootPitch);
+           if (!interval) return;
+           if (!pairsByInterval[interval]) pairsByInterval[interval] = [];
+           pairsByInterval[interval].push({ root, target });
+         });
+       });
+       return pairsByInterval;
+     };
+
+     // Keep shapes within a hand span unless the current range leaves nothing to ask
+     let pairsByInterval = findPairs(INTERVAL_MAX_FRET_SPAN);
+     if (Object.keys(pairsByInterval).length === 0) pairsByInterval = findPairs(TOTAL_FRETS);
+     const intervals = Object.keys(pairsByInterval);
+     if (intervals.length === 0) return null;
+
+     const now = Date.now();
+     const weightedIntervals = intervals.map(interval => {
+       // Avoid asking the same interval twice in a row
+       if (interval === targetIntervalRef.current && intervals.length > 1) return { interval, weight: 0 };
+       return { interval, weight: gameConfig.adaptiveLearning ? getStatWeight(intervalStats[interval], now) : 1 };
      });
 
-     const totalWeight = weightedNotes.reduce((sum, item) => sum + item.weight, 0);
+     const totalWeight = weightedIntervals.reduce((sum, item) => sum + item.weight, 0);
      let randomVal = Math.random() * totalWeight;
-     
-     for (const item of weightedNotes) {
-        if (randomVal < item.weight) return item.note;
-        randomVal -= item.weight;
+     let chosen = intervals[intervals.length - 1];
+     for (const item of weightedIntervals) {
+       if (randomVal < item.weight) {
+         chosen = item.interval;
+         break;
+       }
+       randomVal -= item.weight;
      }
 
-     return validNotes[validNotes.length - 1];
+     const pairs = pairsByInterval[chosen];
+     return { ...pairs[Math.floor(Math.random() * pairs.length)], interval: chosen };
   };
 
   // Computes Stats dynamically from selected history window
+  // Aggregates the timeline window's fretboard answers, queried by time from the history database
+  useEffect(() => {
+     if (gameState !== GameState.STATS) return;
+     if (history.length === 0) {
+        setWindowStats(null);
+        return;
+     }
+
+     // Sessions never overlap, so the window runs from the end of the session before it to the end of its last session
+     const from = timelineWindow.start > 0 ? Date.parse(history[timelineWindow.start - 1].date) + 1 : 0;
+     const to = Date.parse(history[Math.min(timelineWindow.end, history.length - 1)].date);
+     const tuningId = activeGuitar.tuningName;
+     let cancelled = false;
+
+     queryInteractions(tuningId, from, to, history)
+       .then(rows => {
+          if (cancelled) return;
+          const computedStats: NoteStatsMap = {};
+          rows.forEach(interaction => {
+             if (!interaction.note || (interaction.gameMode && NON_POSITION_MODES.includes(interaction.gameMode))) return;
+             const key = `${tuningId}-${interaction.note.stringIndex}-${interaction.note.fretIndex}`;
+             if (!computedStats[key]) {
+               computedStats[key] = { correct: 0, incorrect: 0, timeouts: 0, totalTimeMs: 0, lastSeen: 0 };
+             }
+             const stat = computedStats[key];
+             if (interaction.isCorrect) stat.correct++;
+             else if (interaction.isTimeout) stat.timeouts++;
+             else stat.incorrect++;
+
+             stat.totalTimeMs += interaction.timeTakenMs;
+          });
+          setWindowStats(computedStats);
+       })
+       .catch(e => console.error("Failed to query history", e));
+
+     return () => { cancelled = true; };
+  }, [gameState, history, timelineWindow, activeGuitar.tuningName]);
+
+  // Every answer given at a heatmap cell in this tuning, queried by position from the history database
+  const showPositionDetail = (stringIndex: number, fretIndex: number) => {
+     const tuningName = activeGuitar.tuningName;
+     queryInteractionsAt(tuningName, `${stringIndex}-${fretIndex}`, history)
+       .then(rows => {
+          const interactions = rows.filter(interaction => !interaction.gameMode || !NON_POSITION_MODES.includes(interaction.gameMode));
+          setPositionDetail({
+            tuningName,
+            stringIndex,
+            fretIndex,
+            correct: interactions.filter(interaction => interaction.isCorrect).length,
+            total: interactions.length,
+            lastAskedAt: interactions.length > 0 ? interactions[interactions.length - 1].timestamp : null
+          });
+       })
+       .catch(e => console.error("Failed to query history", e));
+  };
+
   const getHeatmapData = () => {
-     const data: Record<string, { color: string, label: string, textColor?: string }> = {};
+     const data: Record<string, HeatmapCell> = {};
      const tuningId = activeGuitar.tuningName;
-     
-     let computedStats: NoteStatsMap = {};
 
-     const relevantHistory = history.slice(timelineWindow.start, timelineWindow.end + 1);
-     
-     if (relevantHistory.length === 0) {
-        // Fallback to global stats (which are already keyed by tuningId, so we just filter below)
-        computedStats = noteStats;
-     } else {
-        // Aggregate only records that match the current tuning
-        relevantHistory.forEach(record => {
-           // Support legacy records by defaulting to Standard if tuningName is missing
-           const recordTuning = record.tuningName || 'Standard (EADGBE)';
-           
-           if (recordTuning === tuningId && record.interactions) {
-             record.interactions.forEach(interaction => {
-                const key = `${tuningId}-${interaction.note.stringIndex}-${interaction.note.fretIndex}`;
-                if (!computedStats[key]) {
-                  computedStats[key] = { correct: 0, incorrect: 0, timeouts: 0, totalTimeMs: 0, lastSeen: 0 };
-                }
-                const stat = computedStats[key];
-                if (interaction.isCorrect) stat.correct++;
-                else if (interaction.isTimeout) stat.timeouts++;
-                else stat.incorrect++;
-                
-                stat.totalTimeMs += interaction.timeTakenMs;
-             });
-           }
-        });
-     }
+     // Without history, fall back to global stats (which are already keyed by tuningId)
+     const computedStats = windowStats ?? noteStats;
 
-     for (let s = 0; s < 6; s++) {
+     for (let s = 0; s < activeGuitar.tuning.length; s++) {
         for (let f = 0; f <= 12; f++) {
-           const key = `${tuningId}-${s}-${f}`;
-           const stat = computedStats[key];
-           const mapKey = `${s}-${f}`;
-
-           if (!stat) {
-              data[mapKey] = { color: 'rgba(50,50,50,0.5)', label: '-', textColor: 'gray' };
-              continue;
-           }
-
-           const total = stat.correct + stat.incorrect + stat.timeouts;
-           if (total === 0) {
-              data[mapKey] = { color: 'rgba(50,50,50,0.5)', label: '-', textColor: 'gray' };
-              continue;
-           }
-
-           let color = '';
-           let label = '';
-           let textColor = 'white';
-
-           // Reduced saturation and brightness for background to allow Note Badge to pop
-           if (heatmapMetric === HeatmapMetric.ACCURACY) {
-              const acc = stat.correct / total;
-              const hue = acc * 120;
-              color = `hsla(${hue}, 50%, 30%, 0.95)`;
-              label = `${Math.round(acc * 100)}%`;
-           } else if (heatmapMetric === HeatmapMetric.SPEED) {
-              const avg = stat.totalTimeMs / total;
-              const clamped = Math.max(1000, Math.min(5000, avg));
-              const factor = 1 - ((clamped - 1000) / 4000); 
-              const hue = factor * 120;
-              color = `hsla(${hue}, 50%, 30%, 0.95)`;
-              label = `${(avg/1000).toFixed(1)}s`;
-           } else if (heatmapMetric === HeatmapMetric.FREQUENCY) {
-              const factor = Math.min(total, 20) / 20; 
-              const lightness = 20 + (factor * 25);
-              color = `hsla(210, 50%, ${lightness}%, 0.95)`;
-              label = `${total}`;
-           }
-
-           data[mapKey] = { color, label, textColor };
+           data[`${s}-${f}`] = getHeatmapCell(computedStats[`${tuningId}-${s}-${f}`], heatmapMetric);
         }
      }
      return data;
   };
 
+  // Staff heatmap: one cell per sounding pitch that has results on the chosen clef
+  const getStaffHeatmapData = () => {
+     const data: Record<string, HeatmapCell> = {};
+     const prefix = `${staffHeatmapClef}-`;
+     Object.entries(staffStats).forEach(([key, stat]) => {
+        if (key.startsWith(prefix)) data[key.slice(prefix.length)] = getHeatmapCell(stat, heatmapMetric);
+     });
+     return data;
+  };
+
   // -----------------------------
 
   const triggerPowerup = (currentStreak: number): string | null => {
@@ -434,12 +1241,12 @@ const App: React.FC = () => {
           label: '50/50 Choices Active!'
         };
       } else if (roll < 0.6) {
-        const strIdx = Math.floor(Math.random() * 6);
+        const strIdx = Math.floor(Math.random() * activeGuitar.tuning.length);
         newPowerup = {
           type: PowerupType.REVEAL_NATURALS_STRING,
           value: strIdx,
           duration: duration,
-          label: `Natural Notes on String ${strIdx + 1} Revealed!`
+          label: `Natural Notes on String ${activeGuitar.tuning.length - strIdx} Revealed!`
         };
       } else if (roll < 0.8) {
         const fret = Math.floor(Math.random() * currentMaxFret) + 1;
@@ -476,7 +1283,7 @@ const App: React.FC = () => {
     // Use active guitar tuning
     const offsets = activeGuitar.tuning;
 
-    for (let s = 0; s < 6; s++) {
+    for (let s = 0; s < offsets.length; s++) {
       for (let f = 0; f <= currentMaxFret; f++) {
         // Dynamic note calculation based on tuning
         const name = getNoteAtPosition(offsets[s], f);
@@ -522,38 +1329,132 @@ const App: React.FC = () => {
     }
 
     let nextNote: Note;
+    let nextInterval: string | null = null;
+    let nextChord: { root: string; quality: ChordQuality } | null = null;
+
+    // Note Finder prompts with a note name, so avoid repeating the name rather than the position
+    const isRepeat = (note: Note) => {
+      const current = targetNoteRef.current;
+      if (!current) return false;
+      return currentGameMode === GameMode.NOTE_TO_FRETBOARD
+        ? note.noteName === current.noteName
+        : isSamePosition(note, current);
+    };
     
-    if (gameConfig.adaptiveLearning) {
+    const intervalPair = currentGameMode === GameMode.FRETBOARD_TO_INTERVAL ? pickIntervalPair(validNotes) : null;
+
+    // Octave finder only asks about positions that have something to find
+    const rangePositions = currentGameMode === GameMode.FRETBOARD_TO_OCTAVES ? getPositionsInRange() : [];
+    const notesWithMatches = validNotes.filter(n => findOctaveMatches(n, rangePositions).length > 0);
+    const pickableNotes = notesWithMatches.length > 0 ? notesWithMatches : validNotes;
+
+    if (intervalPair) {
+       nextNote = intervalPair.target;
+       nextInterval = intervalPair.interval;
+       setIntervalRoot(intervalPair.root);
+       setTargetInterval(intervalPair.interval);
+    } else if (currentGameMode === GameMode.FRETBOARD_TO_CHORD_TONE) {
+       let rootPool = NOTES_SHARP;
+       if (gameConfig.focusMode === FocusMode.NATURALS) {
+         rootPool = NATURAL_NOTES;
+       } else if (gameConfig.focusMode === FocusMode.KEY && gameConfig.keyRoot && gameConfig.keyScale) {
+         rootPool = getScaleNotes(gameConfig.keyRoot, gameConfig.keyScale);
+       }
+       const qualities = Object.keys(CHORD_INTERVALS) as ChordQuality[];
+       const chord = {
+         root: rootPool[Math.floor(Math.random() * rootPool.length)],
+         quality: qualities[Math.floor(Math.random() * qualities.length)]
+       };
+
+       // Mostly ask about chord tones, sometimes about a note outside the chord
+       const chordNotes = getChordNotes(chord.root, chord.quality);
+       const inChord = validNotes.filter(n => chordNotes.includes(n.noteName));
+       const outOfChord = validNotes.filter(n => !chordNotes.includes(n.noteName));
+       const askOutside = outOfChord.length > 0 && (inChord.length === 0 || Math.random() < NON_CHORD_TONE_CHANCE);
+       const candidates = askOutside ? outOfChord : inChord;
+       nextNote = candidates[Math.floor(Math.random() * candidates.length)];
+       nextChord = chord;
+       setTargetChord(chord);
+    } else if (gameConfig.adaptiveLearning) {
        let attempts = 0;
        do {
-          nextNote = getSmartNextNote(validNotes);
+          nextNote = getSmartNextNote(pickableNotes);
           attempts++;
-       } while (
-         targetNoteRef.current && 
-         nextNote.stringIndex === targetNoteRef.current.stringIndex && 
-         nextNote.fretIndex === targetNoteRef.current.fretIndex && 
-         attempts < 3
-       );
+       } while (isRepeat(nextNote) && attempts < 3);
     } else {
        let attempts = 0;
        do {
-        const idx = Math.floor(Math.random() * validNotes.length);
-        nextNote = validNotes[idx];
+        const idx = Math.floor(Math.random() * pickableNotes.length);
+        nextNote = pickableNotes[idx];
         attempts++;
-       } while (
-        targetNoteRef.current && 
-        nextNote.stringIndex === targetNoteRef.current.stringIndex && 
-        nextNote.fretIndex === targetNoteRef.current.fretIndex && 
-        attempts < 10
-       );
+       } while (isRepeat(nextNote) && attempts < 10);
     }
     
     setTargetNote(nextNote);
     noteStartTimeRef.current = Date.now(); 
+
+    // Note Finder: every location of the note name within the current range must be found
+    // Octave Finder: every other octave/unison of the shown position must be found
+    // Staff/Ear to Fretboard: every unison of the written or heard pitch is accepted (and revealed afterwards)
+    let positions: Note[] = [];
+    if (currentGameMode === GameMode.NOTE_TO_FRETBOARD) {
+      positions = validNotes.filter(n => n.noteName === nextNote.noteName);
+    } else if (currentGameMode === GameMode.FRETBOARD_TO_OCTAVES) {
+      positions = findOctaveMatches(nextNote, rangePositions);
+    } else if (PITCH_TAP_MODES.includes(currentGameMode)) {
+      const offsets = activeGuitar.tuning;
+      const targetPitch = fretboardToStaffNote(offsets[nextNote.stringIndex], nextNote.fretIndex);
+      positions = validNotes.filter(n => isSamePitch(fretboardToStaffNote(offsets[n.stringIndex], n.fretIndex), targetPitch));
+      setTargetStaffNote(targetPitch);
+      if (currentGameMode === GameMode.STAFF_TO_FRETBOARD) {
+        setCurrentClef(pickClef(staffGameConfig.clefPreference));
+      }
+    } else if (currentGameMode === GameMode.FRETBOARD_TO_STAFF) {
+      const targetPitch = fretboardToStaffNote(activeGuitar.tuning[nextNote.stringIndex], nextNote.fretIndex);
+      const writtenPitch = { ...targetPitch, octave: targetPitch.octave + (staffGameConfig.useGuitarTransposition ? 1 : 0) };
+      setTargetStaffNote(targetPitch);
+      setCurrentClef(pickClefForEntry(staffGameConfig.clefPreference, writtenPitch));
+      setPlacedStaffNote(null);
+    }
+    setTargetPositions(positions);
+    setMarkedPositions([]);
     
     const isFewerChoices = currentPowerup?.type === PowerupType.FEWER_CHOICES;
 
-    if (difficulty === Difficulty.EASY) {
+    if (TAP_ANSWER_MODES.includes(currentGameMode) || currentGameMode === GameMode.FRETBOARD_TO_STAFF) {
+      // Answers are given by tapping the fretboard or writing on the staff
+      setAnswerOptions([]);
+    } else if (nextInterval) {
+      const answerIndex = INTERVAL_NAMES.indexOf(nextInterval);
+      if (difficulty === Difficulty.EASY) {
+        // Distractors come from the same octave band (simple or compound), listed smallest first
+        const bandStart = answerIndex < 12 ? 0 : 12;
+        const band = INTERVAL_NAMES.slice(bandStart, bandStart + 12).filter(name => name !== nextInterval);
+        const distractors = band.sort(() => 0.5 - Math.random()).slice(0, 4);
+        setAnswerOptions([...distractors, nextInterval].sort((a, b) => INTERVAL_NAMES.indexOf(a) - INTERVAL_NAMES.indexOf(b)));
+      } else {
+        setAnswerOptions(INTERVAL_NAMES);
+      }
+    } else if (nextChord) {
+      const tones = CHORD_TONE_NAMES.slice(0, CHORD_INTERVALS[nextChord.quality].length);
+      setAnswerOptions([...tones, NOT_IN_CHORD]);
+    } else if (currentGameMode === GameMode.FRETBOARD_TO_DEGREE) {
+      const keyRoot = gameConfig.keyRoot || 'C';
+      const keyScale = gameConfig.keyScale || 'MAJOR';
+      const answer = getScaleDegree(nextNote.noteName, keyRoot, keyScale);
+      // With a key focus only diatonic positions appear, so only the seven degrees are offered
+      const degreeNames = getScaleDegreeNames(keyRoot, keyScale);
+      const pool = gameConfig.focusMode === FocusMode.KEY
+        ? getScaleNotes(keyRoot, keyScale).map(n => getScaleDegree(n, keyRoot, keyScale))
+        : degreeNames;
+
+      if (difficulty === Difficulty.EASY) {
+        const distractors = pool.filter(d => d !== answer).sort(() => 0.5 - Math.random()).slice(0, 4);
+        setAnswerOptions([...distractors, answer].sort((a, b) => degreeNames.indexOf(a) - degreeNames.indexOf(b)));
+      } else {
+        setAnswerOptions(pool);
+      }
+    } else if (difficulty === Difficulty.EASY) {
       let allowedDistractors = NOTES_SHARP;
       if (gameConfig.focusMode === FocusMode.NATURALS) {
         allowedDistractors = NATURAL_NOTES;
@@ -564,8 +1465,18 @@ const App: React.FC = () => {
       const possibleDistractors = allowedDistractors.filter(n => n !== nextNote.noteName);
       const numDistractors = isFewerChoices ? 1 : 4;
       const safeNumDistractors = Math.min(numDistractors, possibleDistractors.length);
-      
-      const distractors = possibleDistractors.sort(() => 0.5 - Math.random()).slice(0, safeNumDistractors);
+
+      // Notes this player has mistaken for the target before get a seat first
+      const confused = gameConfig.adaptiveLearning
+        ? getConfusedPitchClasses(nextNote.noteName)
+            .map(pitchClass => possibleDistractors.find(n => getPitchClass(n) === pitchClass))
+            .filter((n): n is string => n !== undefined)
+            .slice(0, Math.min(CONFUSED_DISTRACTORS, safeNumDistractors))
+        : [];
+      const distractors = [
+        ...confused,
+        ...possibleDistractors.filter(n => !confused.includes(n)).sort(() => 0.5 - Math.random()).slice(0, safeNumDistractors - confused.length)
+      ];
       const options = [...distractors, nextNote.noteName].sort(() => 0.5 - Math.random());
       setAnswerOptions(options);
     } else {
@@ -590,6 +1501,10 @@ const App: React.FC = () => {
       }
     }
 
+    // Longer timer when several positions have to be found
+    const timeMultiplier = MULTI_TAP_MODES.includes(currentGameMode) && positions.length > 1
+      ? Math.min(positions.length * 0.7, 3)
+      : 1;
     setTimer(100);
     startTimeRef.current = Date.now();
     
@@ -597,7 +1512,7 @@ const App: React.FC = () => {
     
     timerIntervalRef.current = window.setInterval(() => {
       const elapsed = Date.now() - startTimeRef.current;
-      const limitMs = gameConfig.timeLimit * 1000;
+      const limitMs = gameConfig.timeLimit * 1000 * timeMultiplier;
       const remaining = Math.max(0, 100 - (elapsed / limitMs) * 100);
       setTimer(remaining);
       
@@ -605,7 +1520,7 @@ const App: React.FC = () => {
         handleTimeout();
       }
     }, 100);
-  }, [currentMaxFret, difficulty, getValidNotes, gameConfig, noteStats]);
+  }, [currentMaxFret, difficulty, getValidNotes, gameConfig, noteStats, intervalStats, currentGameMode, activeGuitar, staffGameConfig]);
 
   useEffect(() => {
     if (gameState === GameState.PLAYING && !targetNote && !isProcessing) {
@@ -630,39 +1545,66 @@ const App: React.FC = () => {
       focusMode: gameConfig.focusMode,
       interactions: [...sessionInteractionsRef.current],
       avgTimeSeconds: avgTime,
+      gameMode: currentGameMode,
       tuningName: activeGuitar.tuningName // Save Tuning Name
     };
     
-    const newHistory = [...history, newRecord];
+    const newHistory = [...historyRef.current, newRecord];
+    historyRef.current = newHistory;
     setHistory(newHistory);
     // Update timeline window to include new record
     setTimelineWindow({ start: 0, end: newHistory.length - 1 });
     
-    localStorage.setItem('fretmaster_history', JSON.stringify(newHistory));
+    addSession(newRecord, newHistory);
+    queueSyncChange(outbox => queueSession(outbox, newRecord.date));
+    setSyncRequest(n => n + 1);
     
     // Reset session log
     sessionInteractionsRef.current = [];
-  }, [score, difficulty, currentMaxFret, history, gameConfig, activeGuitar]);
+  }, [score, difficulty, currentMaxFret, history, gameConfig, activeGuitar, currentGameMode]);
 
-  const handleTimeout = () => {
-    if (gameStateRef.current !== GameState.PLAYING) return;
-    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
-    
-    if (targetNoteRef.current) {
-       const timeTaken = Date.now() - noteStartTimeRef.current;
-       recordNoteResult(targetNoteRef.current, false, timeTaken, true);
+  const getFeedbackNoteName = (noteName: string) => getDisplayNoteName(noteName,
+    gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null,
+    gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
+    accidentalPreference
+  );
+
+  // Shared round resolution for the fretboard games: scoring streaks, powerups and fret progression
+  const resolveCorrectRound = (newScore: number, newStreak: number, message: string = 'Correct!', roundStartScore: number = score) => {
+    playTargetPitch('CORRECT');
+    setScore(newScore);
+    setStreak(newStreak);
+
+    let delay = 800;
+    let feedbackMsg = message;
+
+    // Powerups reveal note names, which would give away the answer in tap-to-answer modes
+    const powerupMsg = currentGameMode === GameMode.FRETBOARD_TO_NOTE ? triggerPowerup(newStreak) : null;
+    if (powerupMsg) {
+      feedbackMsg = powerupMsg;
+      delay = 1500;
     }
 
-    setIsProcessing(true);
+    // Level up every 5 points (partial scoring can add several points at once)
+    const crossedLevel = Math.floor(newScore / 5) > Math.floor(roundStartScore / 5);
+    if (newScore > 0 && crossedLevel && currentMaxFret < gameConfig.maxFretCap) {
+      setCurrentMaxFret(prev => Math.min(prev + 1, gameConfig.maxFretCap));
+      feedbackMsg = powerupMsg ? `${powerupMsg} + Level Up!` : 'Level Up! Fretboard Expanded!';
+      delay = 1500;
+    }
     
-    const correctNote = targetNoteRef.current?.noteName || '?';
-    const displayCorrect = getDisplayNoteName(correctNote, 
-      gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null,
-      gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
-      accidentalPreference
-    );
+    setFeedback({ status: 'correct', message: feedbackMsg });
 
-    setFeedback({ status: 'incorrect', message: `Time up! It was ${displayCorrect}` });
+    if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
+    feedbackTimeoutRef.current = window.setTimeout(() => {
+      setFeedback({ status: 'neutral', message: '' });
+      generateNewNote();
+    }, delay);
+  };
+
+  const resolveIncorrectRound = (message: string) => {
+    playTargetPitch('MISTAKE');
+    setFeedback({ status: 'incorrect', message });
     setStreak(0);
     setActivePowerup(null);
     
@@ -686,7 +1628,77 @@ const App: React.FC = () => {
     });
   };
 
-  const checkAnswer = (selectedNote: string) => {
+  // Marks every target position that was not found yet as missed
+  const revealMissedPositions = (marked: MarkedPosition[]): MarkedPosition[] => [
+    ...marked,
+    ...targetPositionsRef.current
+      .filter(p => !marked.some(m => isSamePosition(m, p)))
+      .map(p => ({ stringIndex: p.stringIndex, fretIndex: p.fretIndex, status: 'missed' as const }))
+  ];
+
+  const handleTimeout = () => {
+    if (gameStateRef.current !== GameState.PLAYING) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+    setIsProcessing(true);
+
+    if (currentGameMode === GameMode.FRETBOARD_TO_INTERVAL) {
+      const interval = targetIntervalRef.current;
+      if (interval && targetNoteRef.current) {
+        recordIntervalResult(interval, targetNoteRef.current, false, Date.now() - noteStartTimeRef.current, true);
+      }
+      resolveIncorrectRound(`Time up! It was ${interval || '?'}`);
+      return;
+    }
+
+    if (currentGameMode === GameMode.FRETBOARD_TO_CHORD_TONE) {
+      const target = targetNoteRef.current;
+      const chord = targetChordRef.current;
+      const tone = target && chord ? getChordTone(target.noteName, chord.root, chord.quality) || NOT_IN_CHORD : '?';
+      if (target && chord) {
+        logSessionInteraction({ note: target, chord, isCorrect: false, isTimeout: true, timeTakenMs: Date.now() - noteStartTimeRef.current });
+      }
+      resolveIncorrectRound(`Time up! It was ${tone === NOT_IN_CHORD ? 'not in the chord' : tone}`);
+      return;
+    }
+
+    if (currentGameMode === GameMode.FRETBOARD_TO_DEGREE) {
+      const target = targetNoteRef.current;
+      const degree = target ? getScaleDegree(target.noteName, gameConfig.keyRoot || 'C', gameConfig.keyScale || 'MAJOR') : '?';
+      // Degree answers only go into the session log; the position stats are for naming letters
+      if (target) logSessionInteraction({ note: target, degree, isCorrect: false, isTimeout: true, timeTakenMs: Date.now() - noteStartTimeRef.current });
+      resolveIncorrectRound(`Time up! It was ${degree}`);
+      return;
+    }
+    
+    if (MULTI_TAP_MODES.includes(currentGameMode)) {
+      // Every location that was not found counts as a timeout
+      const marked = markedPositionsRef.current;
+      const timeTaken = Date.now() - noteStartTimeRef.current;
+      targetPositionsRef.current
+        .filter(p => !marked.some(m => isSamePosition(m, p)))
+        .forEach(p => recordNoteResult(p, false, timeTaken, true));
+      setMarkedPositions(revealMissedPositions(marked));
+
+      if (currentGameMode === GameMode.FRETBOARD_TO_OCTAVES) {
+        resolveIncorrectRound(`Time up! Found ${marked.length}/${targetPositionsRef.current.length}`);
+        return;
+      }
+    } else if (targetNoteRef.current) {
+       const timeTaken = Date.now() - noteStartTimeRef.current;
+       recordNoteResult(targetNoteRef.current, false, timeTaken, true);
+       if (PITCH_TAP_MODES.includes(currentGameMode)) {
+         setMarkedPositions(revealMissedPositions([]));
+       }
+    }
+
+    const correctNote = targetNoteRef.current?.noteName || '?';
+    const correctOctave = OCTAVE_SPECIFIC_MODES.includes(currentGameMode) ? targetStaffNoteRef.current?.octave ?? '' : '';
+    resolveIncorrectRound(`Time up! It was ${getFeedbackNoteName(correctNote)}${correctOctave}`);
+  };
+
+  // playedPitch: the note played on the instrument, which also has to be in the octave of the position
+  const checkAnswer = (selectedNote: string, playedPitch?: StaffNoteData) => {
     if (!targetNote || isProcessing) return; 
     if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
     
@@ -694,70 +1706,205 @@ const App: React.FC = () => {
     setSelectedAnswer(selectedNote);
 
     const timeTaken = Date.now() - noteStartTimeRef.current;
-    const isCorrect = selectedNote === targetNote.noteName;
+    const targetPitch = fretboardToStaffNote(activeGuitar.tuning[targetNote.stringIndex], targetNote.fretIndex);
+    const isCorrect = playedPitch
+      ? noteToSemitones(playedPitch) === noteToSemitones(targetPitch)
+      : selectedNote === targetNote.noteName;
     
-    recordNoteResult(targetNote, isCorrect, timeTaken, false);
+    recordNoteResult(targetNote, isCorrect, timeTaken, false, playedPitch ? playedPitch.noteName : selectedNote);
+
+    if (isCorrect) {
+      resolveCorrectRound(score + 1, streak + 1);
+    } else if (playedPitch) {
+      resolveIncorrectRound(`Wrong! You played ${getFeedbackNoteName(playedPitch.noteName)}${playedPitch.octave}, it was ${getFeedbackNoteName(targetPitch.noteName)}${targetPitch.octave}`);
+    } else {
+      resolveIncorrectRound(`Wrong! It was ${getFeedbackNoteName(targetNote.noteName)}`);
+    }
+  };
+
+  const checkIntervalAnswer = (selectedInterval: string) => {
+    if (!targetNote || !targetInterval || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+    setIsProcessing(true);
+    setSelectedAnswer(selectedInterval);
+
+    const timeTaken = Date.now() - noteStartTimeRef.current;
+    const isCorrect = selectedInterval === targetInterval;
+
+    recordIntervalResult(targetInterval, targetNote, isCorrect, timeTaken, false, selectedInterval);
 
     if (isCorrect) {
+      resolveCorrectRound(score + 1, streak + 1);
+    } else {
+      resolveIncorrectRound(`Wrong! It was ${targetInterval}`);
+    }
+  };
+
+  const checkDegreeAnswer = (selectedDegree: string) => {
+    if (!targetNote || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+    setIsProcessing(true);
+    setSelectedAnswer(selectedDegree);
+
+    const timeTaken = Date.now() - noteStartTimeRef.current;
+    const degree = getScaleDegree(targetNote.noteName, gameConfig.keyRoot || 'C', gameConfig.keyScale || 'MAJOR');
+    const isCorrect = selectedDegree === degree;
+
+    logSessionInteraction({ note: targetNote, degree, answer: selectedDegree, isCorrect, isTimeout: false, timeTakenMs: timeTaken });
+
+    if (isCorrect) {
+      resolveCorrectRound(score + 1, streak + 1);
+    } else {
+      resolveIncorrectRound(`Wrong! ${getFeedbackNoteName(targetNote.noteName)} is the ${degree}`);
+    }
+  };
+
+  const checkChordToneAnswer = (selectedTone: string) => {
+    if (!targetNote || !targetChord || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+    setIsProcessing(true);
+    setSelectedAnswer(selectedTone);
+
+    const timeTaken = Date.now() - noteStartTimeRef.current;
+    const tone = getChordTone(targetNote.noteName, targetChord.root, targetChord.quality) || NOT_IN_CHORD;
+    const isCorrect = selectedTone === tone;
+
+    // Logged with the chord so history can be broken down by chord quality
+    logSessionInteraction({ note: targetNote, chord: targetChord, answer: selectedTone, isCorrect, isTimeout: false, timeTakenMs: timeTaken });
+
+    if (isCorrect) {
+      resolveCorrectRound(score + 1, streak + 1);
+    } else {
+      const noteName = getFeedbackNoteName(targetNote.noteName);
+      resolveIncorrectRound(tone === NOT_IN_CHORD ? `Wrong! ${noteName} is not in the chord` : `Wrong! ${noteName} is the ${tone}`);
+    }
+  };
+
+  // Answer buttons hold note names, interval names, degrees or chord tones depending on the mode
+  const handleAnswerOption = (option: string) => {
+    if (currentGameMode === GameMode.FRETBOARD_TO_INTERVAL) {
+      checkIntervalAnswer(option);
+    } else if (currentGameMode === GameMode.FRETBOARD_TO_DEGREE) {
+      checkDegreeAnswer(option);
+    } else if (currentGameMode === GameMode.FRETBOARD_TO_CHORD_TONE) {
+      checkChordToneAnswer(option);
+    } else {
+      checkAnswer(option);
+    }
+  };
+
+  // Label answers are colored by their distance from the root, note names by their own hue
+  const getAnswerOptionHue = (option: string): number => {
+    switch (currentGameMode) {
+      case GameMode.FRETBOARD_TO_INTERVAL:
+        return (INTERVAL_NAMES.indexOf(option) % 12) * 30;
+      case GameMode.FRETBOARD_TO_DEGREE:
+        return getScaleDegreeNames(gameConfig.keyRoot || 'C', gameConfig.keyScale || 'MAJOR').indexOf(option) * 30;
+      case GameMode.FRETBOARD_TO_CHORD_TONE:
+        return option === NOT_IN_CHORD ? 220 : CHORD_TONE_NAMES.indexOf(option) * 60;
+      default:
+        return getNoteHue(option);
+    }
+  };
+
+  // Note Finder / Octave Finder: each tapped location is scored on its own, the round needs all of them
+  const checkNoteFinderTap = (stringIndex: number, fretIndex: number) => {
+    if (!targetNote || isProcessing) return;
+    if (markedPositions.some(p => p.stringIndex === stringIndex && p.fretIndex === fretIndex)) return;
+
+    const isOctaveFinder = currentGameMode === GameMode.FRETBOARD_TO_OCTAVES;
+    const timeTaken = Date.now() - noteStartTimeRef.current;
+    const noteName = getNoteAtPosition(activeGuitar.tuning[stringIndex], fretIndex);
+    const tapped: Note = { stringIndex, fretIndex, noteName };
+    // The shown position itself is not one of the answers
+    if (isOctaveFinder && isSamePosition(tapped, targetNote)) return;
+    const isCorrect = targetPositions.some(p => isSamePosition(p, tapped));
+    const tappedPitch = fretboardToStaffNote(activeGuitar.tuning[stringIndex], fretIndex);
+
+    recordNoteResult(tapped, isCorrect, timeTaken, false);
+
+    if (isCorrect) {
+      const newMarked: MarkedPosition[] = [...markedPositions, { stringIndex, fretIndex, status: 'found' }];
+      setMarkedPositions(newMarked);
       const newScore = score + 1;
-      const newStreak = streak + 1;
-      setScore(newScore);
-      setStreak(newStreak);
-      
-      let delay = 800;
-      let feedbackMsg = 'Correct!';
+      // Time the next find from this tap
+      noteStartTimeRef.current = Date.now();
 
-      const powerupMsg = triggerPowerup(newStreak);
-      if (powerupMsg) {
-        feedbackMsg = powerupMsg;
-        delay = 1500;
+      if (newMarked.length >= targetPositions.length) {
+        if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+        setIsProcessing(true);
+        // Earlier finds this round were already added to the score
+        resolveCorrectRound(newScore, streak + 1, `All ${targetPositions.length} found!`, score - markedPositions.length);
+      } else {
+        setScore(newScore);
+        // Tell true unisons from octaves when any octave counts
+        const shownPitch = fretboardToStaffNote(activeGuitar.tuning[targetNote.stringIndex], targetNote.fretIndex);
+        const matchLabel = isOctaveFinder ? (isSamePitch(tappedPitch, shownPitch) ? 'Unison ' : 'Octave ') : '';
+        setFeedback({ status: 'correct', message: `${matchLabel}${newMarked.length}/${targetPositions.length}` });
+        if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
+        feedbackTimeoutRef.current = window.setTimeout(() => setFeedback({ status: 'neutral', message: '' }), 600);
       }
+    } else {
+      if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+      setIsProcessing(true);
+      setMarkedPositions(revealMissedPositions([...markedPositions, { stringIndex, fretIndex, status: 'wrong' }]));
+      resolveIncorrectRound(`Wrong! That was ${getFeedbackNoteName(noteName)}${isOctaveFinder ? tappedPitch.octave : ''}`);
+    }
+  };
 
-      if (newScore > 0 && newScore % 5 === 0 && currentMaxFret < gameConfig.maxFretCap) {
-        setCurrentMaxFret(prev => Math.min(prev + 1, gameConfig.maxFretCap));
-        feedbackMsg = powerupMsg ? `${powerupMsg} + Level Up!` : 'Level Up! Fretboard Expanded!';
-        delay = 1500;
-      }
-      
-      setFeedback({ status: 'correct', message: feedbackMsg });
+  // Staff/Ear to Fretboard: any position sounding the written or heard pitch (octave included) is correct
+  const checkStaffPitchTap = (stringIndex: number, fretIndex: number) => {
+    if (!targetNote || !targetStaffNote || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    setIsProcessing(true);
 
-      if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-      feedbackTimeoutRef.current = window.setTimeout(() => {
-        setFeedback({ status: 'neutral', message: '' });
-        generateNewNote();
-      }, delay);
+    const timeTaken = Date.now() - noteStartTimeRef.current;
+    const tappedPitch = fretboardToStaffNote(activeGuitar.tuning[stringIndex], fretIndex);
+    const isCorrect = isSamePitch(tappedPitch, targetStaffNote);
+
+    // A miss counts against the position the target was drawn from
+    const tapped: Note = { stringIndex, fretIndex, noteName: tappedPitch.noteName };
+    recordNoteResult(isCorrect ? tapped : targetNote, isCorrect, timeTaken, false);
+
+    setMarkedPositions(revealMissedPositions([{ stringIndex, fretIndex, status: isCorrect ? 'found' : 'wrong' }]));
 
+    if (isCorrect) {
+      resolveCorrectRound(score + 1, streak + 1);
     } else {
-      setStreak(0);
-      setActivePowerup(null);
-      setHealth(prev => {
-        const newHealth = prev - 1;
-        const correctDisplay = getDisplayNoteName(targetNote.noteName, 
-           gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null,
-           gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
-           accidentalPreference
-        );
-        setFeedback({ status: 'incorrect', message: `Wrong! It was ${correctDisplay}` });
-        
-        if (newHealth <= 0) {
-           if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-           feedbackTimeoutRef.current = window.setTimeout(() => {
-             stopGame();
-           }, 2000);
-           return 0;
-        }
-        
-        if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-        feedbackTimeoutRef.current = window.setTimeout(() => {
-          setFeedback({ status: 'neutral', message: '' });
-          generateNewNote();
-        }, 1500);
-        return newHealth;
-      });
+      resolveIncorrectRound(`Wrong! That was ${getFeedbackNoteName(tappedPitch.noteName)}${tappedPitch.octave}`);
+    }
+  };
+
+  // Fretboard to Staff: any spelling of the sounding pitch is accepted (F#3 and Gb3 are both right)
+  const checkStaffEntry = () => {
+    if (!targetNote || !targetStaffNote || !placedStaffNote || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    setIsProcessing(true);
+
+    const timeTaken = Date.now() - noteStartTimeRef.current;
+    const isCorrect = noteToSemitones(placedStaffNote) === noteToSemitones(targetStaffNote);
+
+    recordNoteResult(targetNote, isCorrect, timeTaken, false);
+
+    if (isCorrect) {
+      resolveCorrectRound(score + 1, streak + 1);
+    } else {
+      resolveIncorrectRound(`Wrong! It was ${getFeedbackNoteName(targetStaffNote.noteName)}${targetStaffNote.octave}`);
+    }
+  };
+
+  const handlePositionSelect = (stringIndex: number, fretIndex: number) => {
+    if (PITCH_TAP_MODES.includes(currentGameMode)) {
+      checkStaffPitchTap(stringIndex, fretIndex);
+    } else {
+      checkNoteFinderTap(stringIndex, fretIndex);
     }
   };
 
-  const startGame = () => {
+  const startGame = (mode: GameMode = GameMode.FRETBOARD_TO_NOTE) => {
     cleanupTimers();
     setScore(0);
     setStreak(0);
@@ -766,8 +1913,15 @@ const App: React.FC = () => {
     setCurrentMaxFret(gameConfig.startingFret);
     setFeedback({ status: 'neutral', message: '' });
     setTargetNote(null);
+    setTargetStaffNote(null);
+    setPlacedStaffNote(null);
+    setTargetPositions([]);
+    setMarkedPositions([]);
+    setIntervalRoot(null);
+    setTargetInterval(null);
+    setTargetChord(null);
     setGameState(GameState.PLAYING);
-    setCurrentGameMode(GameMode.FRETBOARD_TO_NOTE);
+    setCurrentGameMode(mode);
     setIsProcessing(false);
     setSelectedAnswer(null);
     targetNoteRef.current = null;
@@ -782,6 +1936,16 @@ const App: React.FC = () => {
   // STAFF GAME MODE
   // ==========================================================================
 
+  // Adaptive sight reading: the pitch from the pool the scheduler most wants asked on this clef
+  const pickStaffPitch = (clef: 'treble' | 'bass', pool: StaffNoteData[]): StaffNoteData | null => {
+    if (pool.length === 0) return null;
+    if (!gameConfig.adaptiveLearning) return pool[Math.floor(Math.random() * pool.length)];
+
+    const previous = targetStaffNoteRef.current;
+    const candidates = pool.length > 1 && previous ? pool.filter(n => !isSamePitch(n, previous)) : pool;
+    return selectNextReview(candidates, n => staffStats[getStaffStatKey(clef, n)], Date.now());
+  };
+
   const generateNewStaffNote = useCallback(() => {
     if (gameStateRef.current !== GameState.PLAYING_STAFF) return;
 
@@ -795,59 +1959,92 @@ const App: React.FC = () => {
       : gameConfig.focusMode === FocusMode.NATURALS ? 'NATURALS'
       : 'KEY';
 
-    // Determine clef based on preference
-    let clef: 'treble' | 'bass';
-    if (staffGameConfig.clefPreference === 'random') {
-      clef = Math.random() < 0.5 ? 'treble' : 'bass';
-    } else {
-      clef = staffGameConfig.clefPreference;
-    }
-    setCurrentClef(clef);
+    // Use the configured note range
+    const { lowNote, highNote } = staffGameConfig.noteRange;
 
-    // Pick a random duration from enabled options
-    const durations = staffGameConfig.noteDurations === 'all'
-      ? ALL_NOTE_DURATIONS
-      : staffGameConfig.noteDurations;
-    const randomDuration = durations[
-      Math.floor(Math.random() * durations.length)
-    ] as NoteDuration;
+    if (currentGameMode === GameMode.NOTE_TO_STAFF) {
+      // Note Writing: a single spelled pitch, which has to be written with that exact spelling
+      const pitch = pickStaffPitch(pickClef(staffGameConfig.clefPreference), getStaffNotesInRange(lowNote, highNote, focusMode, gameConfig.keyRoot, gameConfig.keyScale))
+        || generateRandomStaffNoteInRange(lowNote, highNote, focusMode, gameConfig.keyRoot, gameConfig.keyScale);
+      const spelledName = getFeedbackNoteName(pitch.noteName).replace('♯', '#').replace('♭', 'b');
+      const target: StaffNoteData = { noteName: spelledName, octave: pitch.octave };
+      const writtenPitch = { ...target, octave: target.octave + (staffGameConfig.useGuitarTransposition ? 1 : 0) };
 
-    // Generate notes (single or multi-note mode)
-    const notesToGenerate = staffGameConfig.noteCount;
-    const generatedNotes: StaffNoteData[] = [];
+      setCurrentClef(pickClefForEntry(staffGameConfig.clefPreference, writtenPitch));
+      setTargetStaffNote(target);
+      setTargetStaffNotes([]);
+      setPlacedStaffNote(null);
+      setAnswerOptions([]);
+      startStaffTimer(1);
+      return;
+    }
 
-    // Use the configured note range
-    const { lowNote, highNote } = staffGameConfig.noteRange;
+    if (currentGameMode === GameMode.KEY_SIGNATURE_TO_KEY) {
+      // Key signatures: name the major or relative minor key, or the mode starting on the tonic shown
+      const clef = pickClef(staffGameConfig.clefPreference);
+      const signature = KEY_SIGNATURES[Math.floor(Math.random() * KEY_SIGNATURES.length)];
+      const questions: KeySignatureRound['question'][] = staffGameConfig.keySignatureModes ? ['MAJOR', 'MINOR', 'MODE'] : ['MAJOR', 'MINOR'];
+      const question = questions[Math.floor(Math.random() * questions.length)];
+
+      let answer: string;
+      let pool: string[];
+      let tonicNote: StaffNoteData | null = null;
+      if (question === 'MODE') {
+        const mode = KEY_SCALE_OPTIONS[Math.floor(Math.random() * KEY_SCALE_OPTIONS.length)].value;
+        const tonic = getKeySignatureTonic(signature.accidentals, mode);
+        // Write the tonic inside the staff, then undo the guitar transposition to get the sounding note
+        const writtenOctave = [2, 3, 4, 5, 6].find(octave => {
+          const step = getStaffStep({ noteName: tonic, octave }, clef);
+          return step >= 0 && step <= 8;
+        }) ?? 4;
+        tonicNote = { noteName: tonic, octave: writtenOctave - (staffGameConfig.useGuitarTransposition ? 1 : 0), duration: 'w' };
+        answer = mode;
+        pool = KEY_SCALE_OPTIONS.map(o => o.value);
+      } else {
+        answer = question === 'MAJOR' ? signature.major : getRelativeMinorName(signature);
+        pool = KEY_SIGNATURES.map(k => question === 'MAJOR' ? k.major : getRelativeMinorName(k));
+      }
 
-    for (let i = 0; i < notesToGenerate; i++) {
-      let newNote: StaffNoteData;
-      let attempts = 0;
-
-      do {
-        newNote = generateRandomStaffNoteInRange(
-          lowNote,
-          highNote,
-          focusMode,
-          gameConfig.keyRoot,
-          gameConfig.keyScale
-        );
-        // Add duration to note
-        (newNote as any).duration = randomDuration;
-        attempts++;
-      } while (
-        // Avoid duplicates in sequence
-        generatedNotes.some(n => n.noteName === newNote.noteName && n.octave === newNote.octave) &&
-        attempts < 10
-      );
+      // Easy: a handful of choices, kept in circle-of-fifths / mode order
+      const distractors = pool.filter(o => o !== answer).sort(() => 0.5 - Math.random()).slice(0, 4);
+      const options = difficulty === Difficulty.EASY
+        ? pool.filter(o => o === answer || distractors.includes(o))
+        : pool;
 
-      generatedNotes.push(newNote);
+      setCurrentClef(clef);
+      setTargetStaffNote(tonicNote);
+      setTargetStaffNotes([]);
+      setKeySignatureRound({ signature, question, answer });
+      setAnswerOptions(options);
+      startStaffTimer(1);
+      return;
     }
 
-    // Set state based on single or multi-note mode
+    // Determine clef based on preference
+    const clef = pickClef(staffGameConfig.clefPreference);
+    setCurrentClef(clef);
+
+    const durations = staffGameConfig.noteDurations === 'all'
+      ? ALL_NOTE_DURATIONS
+      : staffGameConfig.noteDurations;
+    // Rhythm reading always plays a passage
+    const notesToGenerate = currentGameMode === GameMode.STAFF_RHYTHM ? Math.max(2, staffGameConfig.noteCount) : staffGameConfig.noteCount;
+    let generatedNotes: StaffNoteData[];
+
     if (notesToGenerate === 1) {
+      // Single note flashcard with a random duration from the enabled options
+      const newNote = pickStaffPitch(clef, getStaffNotesInRange(lowNote, highNote, focusMode, gameConfig.keyRoot, gameConfig.keyScale))
+        || generateRandomStaffNoteInRange(lowNote, highNote, focusMode, gameConfig.keyRoot, gameConfig.keyScale);
+      generatedNotes = [{ ...newNote, duration: durations[Math.floor(Math.random() * durations.length)] }];
       setTargetStaffNote(generatedNotes[0]);
       setTargetStaffNotes([]);
     } else {
+      // Passage: a melodic line, barred in the time signature with ties across bar lines
+      const pool = getStaffNotesInRange(lowNote, highNote, focusMode, gameConfig.keyRoot, gameConfig.keyScale);
+      const melody = pool.length > 0
+        ? generateMelodicLine(pool, notesToGenerate, staffGameConfig.maxLeap)
+        : [generateRandomStaffNoteInRange(lowNote, highNote, focusMode, gameConfig.keyRoot, gameConfig.keyScale)];
+      generatedNotes = arrangeInMeasures(melody, durations, staffGameConfig.timeSignature);
       setTargetStaffNote(null);
       setTargetStaffNotes(generatedNotes);
     }
@@ -863,13 +2060,23 @@ const App: React.FC = () => {
         allowedDistractors = getScaleNotes(gameConfig.keyRoot, gameConfig.keyScale);
       }
 
-      const possibleDistractors = allowedDistractors.filter(n => n !== currentTargetNote.noteName);
-      const numDistractors = 4;
-      const safeNumDistractors = Math.min(numDistractors, possibleDistractors.length);
+      if (currentGameMode === GameMode.STAFF_RHYTHM) {
+        // No time to look for moving buttons at tempo: one set for the whole passage, in pitch order
+        const passageNames = Array.from(new Set(generatedNotes.map(n => n.noteName)));
+        const distractors = allowedDistractors
+          .filter(n => !passageNames.includes(n))
+          .sort(() => 0.5 - Math.random())
+          .slice(0, Math.max(0, 5 - passageNames.length));
+        setAnswerOptions([...passageNames, ...distractors].sort((a, b) => noteToSemitones({ noteName: a, octave: 0 }) - noteToSemitones({ noteName: b, octave: 0 })));
+      } else {
+        const possibleDistractors = allowedDistractors.filter(n => n !== currentTargetNote.noteName);
+        const numDistractors = 4;
+        const safeNumDistractors = Math.min(numDistractors, possibleDistractors.length);
 
-      const distractors = possibleDistractors.sort(() => 0.5 - Math.random()).slice(0, safeNumDistractors);
-      const options = [...distractors, currentTargetNote.noteName].sort(() => 0.5 - Math.random());
-      setAnswerOptions(options);
+        const distractors = possibleDistractors.sort(() => 0.5 - Math.random()).slice(0, safeNumDistractors);
+        const options = [...distractors, currentTargetNote.noteName].sort(() => 0.5 - Math.random());
+        setAnswerOptions(options);
+      }
     } else {
       // Hard mode - show all notes in the pool
       let pool: string[] = [];
@@ -880,27 +2087,148 @@ const App: React.FC = () => {
       } else {
         pool = NOTES_SHARP;
       }
-      setAnswerOptions(pool);
-    }
+      setAnswerOptions(pool);
+    }
+
+    if (currentGameMode === GameMode.STAFF_RHYTHM) {
+      startRhythmRound(generatedNotes);
+      return;
+    }
+
+    // Start timer (longer for multi-note mode)
+    startStaffTimer(notesToGenerate > 1 ? Math.min(notesToGenerate * 0.7, 3) : 1);
+  }, [gameConfig, difficulty, staffGameConfig, currentGameMode, accidentalPreference, staffStats]);
+
+  const startStaffTimer = (timeMultiplier: number) => {
+    setTimer(100);
+    startTimeRef.current = Date.now();
+    noteStartTimeRef.current = Date.now();
+
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+    timerIntervalRef.current = window.setInterval(() => {
+      const elapsed = Date.now() - startTimeRef.current;
+      const limitMs = gameConfig.timeLimit * 1000 * timeMultiplier;
+      const remaining = Math.max(0, 100 - (elapsed / limitMs) * 100);
+      setTimer(remaining);
+
+      if (remaining === 0) {
+        handleStaffTimeout();
+      }
+    }, 100);
+  };
+
+  // Rhythm reading: count in one measure, then each note has to be answered on its beat
+  const startRhythmRound = (notes: StaffNoteData[]) => {
+    const { timeSignature, bpm } = staffGameConfig;
+    const beatMs = 60000 / bpm;
+    const sixteenthMs = beatMs / getBeatSixteenths(timeSignature);
+    const beatsPerMeasure = getMeasureSixteenths(timeSignature) / getBeatSixteenths(timeSignature);
+    const onsets = getNoteOnsets(notes);
+    const lastNote = notes[notes.length - 1];
+    const lengthMs = (onsets[onsets.length - 1] + DURATION_SIXTEENTHS[lastNote.duration || 'q']) * sixteenthMs;
+    const countInMs = beatsPerMeasure * beatMs;
+
+    rhythmRoundRef.current?.stopClicks();
+    const clickCount = Math.round((countInMs + lengthMs) / beatMs);
+    rhythmRoundRef.current = {
+      notes,
+      startAt: Date.now() + RHYTHM_LEAD_IN_SECONDS * 1000 + countInMs,
+      onsetsMs: onsets.map(o => o * sixteenthMs),
+      lengthMs,
+      results: [],
+      stopClicks: scheduleClickTrack(clickCount, beatMs / 1000, beatsPerMeasure, RHYTHM_LEAD_IN_SECONDS)
+    };
+
+    setTimer(100);
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    timerIntervalRef.current = window.setInterval(() => rhythmTickRef.current(), 50);
+  };
+
+  // The note being answered: each attack's window opens a little before its beat and runs until the next one's opens
+  const getRhythmNoteIndex = (round: RhythmRound, elapsedMs: number): number | null => {
+    const attackIndexes = getAttackIndexes(round.notes);
+    for (let i = attackIndexes.length - 1; i >= 0; i--) {
+      if (elapsedMs >= round.onsetsMs[attackIndexes[i]] - RHYTHM_TOLERANCE_MS) {
+        return elapsedMs < round.lengthMs ? attackIndexes[i] : null;
+      }
+    }
+    return null;
+  };
+
+  const recordRhythmResult = (round: RhythmRound, index: number, isCorrect: boolean, offsetMs: number | null) => {
+    round.results.push({ index, isCorrect, offsetMs });
+    recordStaffResult(round.notes[index], isCorrect, offsetMs === null ? 0 : Math.abs(offsetMs), offsetMs === null, offsetMs ?? undefined);
+  };
+
+  const tickRhythmRound = () => {
+    const round = rhythmRoundRef.current;
+    if (!round || gameStateRef.current !== GameState.PLAYING_STAFF) return;
+    const elapsed = Date.now() - round.startAt;
+    setTimer(elapsed <= 0 ? 100 : Math.max(0, 100 - (elapsed / round.lengthMs) * 100));
+
+    // Notes whose window closed without an answer are missed
+    const currentIndex = getRhythmNoteIndex(round, elapsed);
+    getAttackIndexes(round.notes).forEach(index => {
+      const isPast = elapsed >= round.lengthMs || (currentIndex !== null && index < currentIndex);
+      if (isPast && !round.results.some(r => r.index === index)) {
+        recordRhythmResult(round, index, false, null);
+      }
+    });
 
-    // Start timer (longer for multi-note mode)
-    const timeMultiplier = notesToGenerate > 1 ? Math.min(notesToGenerate * 0.7, 3) : 1;
-    setTimer(100);
-    startTimeRef.current = Date.now();
+    if (currentIndex !== null) setActiveStaffNoteIndex(currentIndex);
+    if (elapsed >= round.lengthMs) finishRhythmRound(round);
+  };
 
+  useEffect(() => {
+    rhythmTickRef.current = tickRhythmRound;
+  });
+
+  const finishRhythmRound = (round: RhythmRound) => {
     if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    round.stopClicks();
+    rhythmRoundRef.current = null;
+    setIsProcessing(true);
 
-    timerIntervalRef.current = window.setInterval(() => {
-      const elapsed = Date.now() - startTimeRef.current;
-      const limitMs = gameConfig.timeLimit * 1000 * timeMultiplier;
-      const remaining = Math.max(0, 100 - (elapsed / limitMs) * 100);
-      setTimer(remaining);
+    const total = getAttackIndexes(round.notes).length;
+    const correct = round.results.filter(r => r.isCorrect).length;
+    const onTime = round.results.filter(r => r.isCorrect && r.offsetMs !== null && Math.abs(r.offsetMs) <= RHYTHM_TOLERANCE_MS);
+    const answered = round.results.filter(r => r.offsetMs !== null);
+    const averageOffset = answered.length > 0
+      ? Math.round(answered.reduce((sum, r) => sum + Math.abs(r.offsetMs!), 0) / answered.length)
+      : 0;
+
+    // Every pitch has to be right to pass; points only go to the notes that were also on time
+    if (correct === total) {
+      resolveStaffCorrectRound(score + onTime.length, `${onTime.length}/${total} on time (±${averageOffset}ms)`);
+    } else {
+      resolveStaffIncorrectRound(`${correct}/${total} notes right, ${onTime.length} on time`);
+    }
+  };
 
-      if (remaining === 0) {
-        handleStaffTimeout();
-      }
-    }, 100);
-  }, [gameConfig, difficulty, staffGameConfig]);
+  // playedPitch: the note played on the instrument, which also has to be in the written octave
+  const checkRhythmAnswer = (selectedNote: string, playedPitch?: StaffNoteData) => {
+    const round = rhythmRoundRef.current;
+    if (!round || isProcessing) return;
+    const elapsed = Date.now() - round.startAt;
+    const index = getRhythmNoteIndex(round, elapsed);
+    // Count-in, or this note was already answered
+    if (index === null || round.results.some(r => r.index === index)) return;
+
+    const target = round.notes[index];
+    const isCorrect = playedPitch
+      ? noteToSemitones(playedPitch) === noteToSemitones(target)
+      : selectedNote === target.noteName;
+    const offsetMs = Math.round(elapsed - round.onsetsMs[index]);
+    recordRhythmResult(round, index, isCorrect, offsetMs);
+
+    const timing = Math.abs(offsetMs) <= RHYTHM_TOLERANCE_MS ? 'On time' : `${offsetMs > 0 ? 'Late' : 'Early'} ${Math.abs(offsetMs)}ms`;
+    setFeedback(isCorrect
+      ? { status: 'correct', message: timing }
+      : { status: 'incorrect', message: `It was ${getFeedbackNoteName(target.noteName)}` });
+    if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
+    feedbackTimeoutRef.current = window.setTimeout(() => setFeedback({ status: 'neutral', message: '' }), 400);
+  };
 
   const handleStaffTimeout = () => {
     if (gameStateRef.current !== GameState.PLAYING_STAFF) return;
@@ -908,6 +2236,15 @@ const App: React.FC = () => {
 
     setIsProcessing(true);
 
+    if (currentGameMode === GameMode.KEY_SIGNATURE_TO_KEY) {
+      if (keySignatureRoundRef.current) recordKeySignatureResult(keySignatureRoundRef.current, false, Date.now() - noteStartTimeRef.current, true);
+      resolveStaffIncorrectRound(`Time up! It was ${getKeySignatureAnswerLabel(keySignatureRoundRef.current?.answer || '?')}`);
+      return;
+    }
+
+    const timedOutNote = getCurrentTargetPitch();
+    if (timedOutNote) recordStaffResult(timedOutNote, false, Date.now() - noteStartTimeRef.current, true);
+
     const correctNote = targetStaffNoteRef.current?.noteName || '?';
     const displayCorrect = getDisplayNoteName(
       correctNote,
@@ -915,8 +2252,38 @@ const App: React.FC = () => {
       gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
       accidentalPreference
     );
+    const correctOctave = OCTAVE_SPECIFIC_MODES.includes(currentGameMode) ? targetStaffNoteRef.current?.octave ?? '' : '';
+
+    resolveStaffIncorrectRound(`Time up! It was ${displayCorrect}${correctOctave}`);
+  };
+
+  // Shared round resolution for the staff games
+  const resolveStaffCorrectRound = (newScore: number, message: string = 'Correct!') => {
+    playTargetPitch('CORRECT');
+    const newStreak = streak + 1;
+    setScore(newScore);
+    setStreak(newStreak);
+
+    let delay = 800;
+    let feedbackMsg = message;
 
-    setFeedback({ status: 'incorrect', message: `Time up! It was ${displayCorrect}` });
+    if (newStreak > 0 && newStreak % 5 === 0) {
+      feedbackMsg = `${newStreak} Streak! 🔥`;
+      delay = 1200;
+    }
+
+    setFeedback({ status: 'correct', message: feedbackMsg });
+
+    if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
+    feedbackTimeoutRef.current = window.setTimeout(() => {
+      setFeedback({ status: 'neutral', message: '' });
+      generateNewStaffNote();
+    }, delay);
+  };
+
+  const resolveStaffIncorrectRound = (message: string) => {
+    playTargetPitch('MISTAKE');
+    setFeedback({ status: 'incorrect', message });
     setStreak(0);
 
     setHealth(prev => {
@@ -939,7 +2306,41 @@ const App: React.FC = () => {
     });
   };
 
-  const checkStaffAnswer = (selectedNote: string) => {
+  const getKeySignatureAnswerLabel = (option: string): string => {
+    return keySignatureRoundRef.current?.question === 'MODE' ? getKeyScaleLabel(option as ScaleType) : formatKeyName(option);
+  };
+
+  const checkKeySignatureAnswer = (option: string) => {
+    if (!keySignatureRound || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+    setIsProcessing(true);
+    setSelectedAnswer(option);
+
+    const isCorrect = option === keySignatureRound.answer;
+    recordKeySignatureResult(keySignatureRound, isCorrect, Date.now() - noteStartTimeRef.current, false, option);
+
+    if (isCorrect) {
+      resolveStaffCorrectRound(score + 1);
+    } else {
+      resolveStaffIncorrectRound(`Wrong! It was ${getKeySignatureAnswerLabel(keySignatureRound.answer)}`);
+    }
+  };
+
+  const handleStaffAnswerOption = (option: string) => {
+    if (currentGameMode === GameMode.KEY_SIGNATURE_TO_KEY) {
+      checkKeySignatureAnswer(option);
+    } else {
+      checkStaffAnswer(option);
+    }
+  };
+
+  // playedPitch: the note played on the instrument, which also has to be in the written octave
+  const checkStaffAnswer = (selectedNote: string, playedPitch?: StaffNoteData) => {
+    if (currentGameMode === GameMode.STAFF_RHYTHM) {
+      checkRhythmAnswer(selectedNote, playedPitch);
+      return;
+    }
     if (isProcessing) return;
 
     // Get the current target note (single or multi-note mode)
@@ -951,10 +2352,18 @@ const App: React.FC = () => {
 
     setSelectedAnswer(selectedNote);
 
-    if (selectedNote === currentTarget.noteName) {
+    const isCorrect = playedPitch
+      ? noteToSemitones(playedPitch) === noteToSemitones(currentTarget)
+      : selectedNote === currentTarget.noteName;
+    recordStaffResult(currentTarget, isCorrect, Date.now() - noteStartTimeRef.current);
+
+    if (isCorrect) {
       // Correct answer
       const isMultiNoteMode = targetStaffNotes.length > 0;
-      const isLastNote = isMultiNoteMode && activeStaffNoteIndex === targetStaffNotes.length - 1;
+      // Tied notes are held, not played again, so the sequence only steps through attacks
+      const attackIndexes = getAttackIndexes(targetStaffNotes);
+      const attackPosition = attackIndexes.indexOf(activeStaffNoteIndex);
+      const isLastNote = isMultiNoteMode && attackPosition === attackIndexes.length - 1;
       const isSingleNote = !isMultiNoteMode;
 
       if (isSingleNote || isLastNote) {
@@ -962,31 +2371,14 @@ const App: React.FC = () => {
         if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
         setIsProcessing(true);
 
-        const newScore = score + (isMultiNoteMode ? targetStaffNotes.length : 1);
-        const newStreak = streak + 1;
-        setScore(newScore);
-        setStreak(newStreak);
-
-        let delay = 800;
-        let feedbackMsg = isMultiNoteMode ? `All ${targetStaffNotes.length} correct!` : 'Correct!';
-
-        if (newStreak > 0 && newStreak % 5 === 0) {
-          feedbackMsg = `${newStreak} Streak! 🔥`;
-          delay = 1200;
-        }
-
-        setFeedback({ status: 'correct', message: feedbackMsg });
-
-        if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-        feedbackTimeoutRef.current = window.setTimeout(() => {
-          setFeedback({ status: 'neutral', message: '' });
-          generateNewStaffNote();
-        }, delay);
+        const newScore = score + (isMultiNoteMode ? attackIndexes.length : 1);
+        resolveStaffCorrectRound(newScore, isMultiNoteMode ? `All ${attackIndexes.length} correct!` : 'Correct!');
       } else {
         // Move to next note in sequence
-        const nextIndex = activeStaffNoteIndex + 1;
+        const nextIndex = attackIndexes[attackPosition + 1];
         setActiveStaffNoteIndex(nextIndex);
         setSelectedAnswer(null);
+        noteStartTimeRef.current = Date.now();
 
         // Update answer options for next note
         const nextNote = targetStaffNotes[nextIndex];
@@ -1004,40 +2396,39 @@ const App: React.FC = () => {
         }
 
         // Brief flash feedback
-        setFeedback({ status: 'correct', message: `${nextIndex}/${targetStaffNotes.length}` });
+        setFeedback({ status: 'correct', message: `${attackPosition + 1}/${attackIndexes.length}` });
         setTimeout(() => setFeedback({ status: 'neutral', message: '' }), 300);
       }
     } else {
       // Wrong answer
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
       setIsProcessing(true);
-      setStreak(0);
-
-      setHealth(prev => {
-        const newHealth = prev - 1;
-        const correctDisplay = getDisplayNoteName(
-          currentTarget.noteName,
-          gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null,
-          gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
-          accidentalPreference
-        );
-        setFeedback({ status: 'incorrect', message: `Wrong! It was ${correctDisplay}` });
-
-        if (newHealth <= 0) {
-          if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-          feedbackTimeoutRef.current = window.setTimeout(() => {
-            stopStaffGame();
-          }, 2000);
-          return 0;
-        }
 
-        if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current);
-        feedbackTimeoutRef.current = window.setTimeout(() => {
-          setFeedback({ status: 'neutral', message: '' });
-          generateNewStaffNote();
-        }, 1500);
-        return newHealth;
-      });
+      const correctDisplay = getDisplayNoteName(
+        currentTarget.noteName,
+        gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null,
+        gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
+        accidentalPreference
+      );
+      resolveStaffIncorrectRound(playedPitch
+        ? `Wrong! You played ${getFeedbackNoteName(playedPitch.noteName)}${playedPitch.octave}, it was ${correctDisplay}${currentTarget.octave}`
+        : `Wrong! It was ${correctDisplay}`);
+    }
+  };
+
+  // Note Writing: the note must be written with the prompted spelling and octave (Gb3 is not F#3)
+  const checkWrittenNote = () => {
+    if (!targetStaffNote || !placedStaffNote || isProcessing) return;
+    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    setIsProcessing(true);
+    recordStaffResult(targetStaffNote, isSamePitch(placedStaffNote, targetStaffNote), Date.now() - noteStartTimeRef.current);
+
+    if (isSamePitch(placedStaffNote, targetStaffNote)) {
+      resolveStaffCorrectRound(score + 1);
+    } else if (noteToSemitones(placedStaffNote) === noteToSemitones(targetStaffNote)) {
+      resolveStaffIncorrectRound(`Right pitch, wrong spelling! It was ${getFeedbackNoteName(targetStaffNote.noteName)}${targetStaffNote.octave}`);
+    } else {
+      resolveStaffIncorrectRound(`Wrong! It was ${getFeedbackNoteName(targetStaffNote.noteName)}${targetStaffNote.octave}`);
     }
   };
 
@@ -1045,42 +2436,110 @@ const App: React.FC = () => {
     cleanupTimers();
     setGameState(GameState.GAME_OVER);
 
+    const totalTime = sessionInteractionsRef.current.reduce((sum, item) => sum + item.timeTakenMs, 0);
+    const count = sessionInteractionsRef.current.length;
+    const avgTime = count > 0 ? (totalTime / count) / 1000 : 0;
+
     const newRecord: ScoreRecord = {
       date: new Date().toISOString(),
       score,
       difficulty,
       maxFret: 0, // Not applicable for staff mode
       focusMode: gameConfig.focusMode,
-      gameMode: GameMode.STAFF_TO_NOTE
+      gameMode: currentGameMode,
+      interactions: [...sessionInteractionsRef.current],
+      avgTimeSeconds: avgTime
     };
 
-    const newHistory = [...history, newRecord];
+    const newHistory = [...historyRef.current, newRecord];
+    historyRef.current = newHistory;
     setHistory(newHistory);
-    localStorage.setItem('fretmaster_history', JSON.stringify(newHistory));
-  }, [score, difficulty, history, gameConfig]);
+    addSession(newRecord, newHistory);
+    queueSyncChange(outbox => queueSession(outbox, newRecord.date));
+    setSyncRequest(n => n + 1);
+    sessionInteractionsRef.current = [];
+  }, [score, difficulty, history, gameConfig, currentGameMode]);
 
-  const startStaffGame = () => {
+  const startStaffGame = (mode: GameMode = GameMode.STAFF_TO_NOTE) => {
     cleanupTimers();
     setScore(0);
     setStreak(0);
     setHealth(MAX_HEALTH);
     setFeedback({ status: 'neutral', message: '' });
     setTargetStaffNote(null);
+    setTargetStaffNotes([]);
+    setPlacedStaffNote(null);
+    setKeySignatureRound(null);
     setGameState(GameState.PLAYING_STAFF);
-    setCurrentGameMode(GameMode.STAFF_TO_NOTE);
+    setCurrentGameMode(mode);
     setIsProcessing(false);
     setSelectedAnswer(null);
     targetStaffNoteRef.current = null;
     gameStateRef.current = GameState.PLAYING_STAFF;
+    sessionInteractionsRef.current = [];
     // Note generation triggered by useEffect
   };
 
   // Effect to start staff game loop
   useEffect(() => {
-    if (gameState === GameState.PLAYING_STAFF && !targetStaffNote && !isProcessing) {
+    if (gameState === GameState.PLAYING_STAFF && !targetStaffNote && targetStaffNotes.length === 0 && !keySignatureRound && !isProcessing) {
       generateNewStaffNote();
     }
-  }, [gameState, targetStaffNote, isProcessing, generateNewStaffNote]);
+  }, [gameState, targetStaffNote, targetStaffNotes, keySignatureRound, isProcessing, generateNewStaffNote]);
+
+  // Microphone/MIDI answers: listen while a round that can be answered by playing is on screen
+  const playedPitchHandlerRef = useRef<(pitch: StaffNoteData) => void>(() => {});
+  const isListeningForPlayedNotes = gameConfig.inputMethod !== 'BUTTONS'
+    && (gameState === GameState.PLAYING || gameState === GameState.PLAYING_STAFF)
+    && PLAYABLE_ANSWER_MODES.includes(currentGameMode)
+    && !(gameConfig.inputMethod === 'MICROPHONE' && MICROPHONE_EXCLUDED_MODES.includes(currentGameMode));
+
+  useEffect(() => {
+    playedPitchHandlerRef.current = (pitch: StaffNoteData) => {
+      if (isStaffGameMode(currentGameMode)) {
+        checkStaffAnswer(pitch.noteName, pitch);
+      } else {
+        checkAnswer(pitch.noteName, pitch);
+      }
+    };
+  });
+
+  useEffect(() => {
+    if (!isListeningForPlayedNotes) return;
+    let stopListening: (() => void) | null = null;
+    let cancelled = false;
+    setInputError(null);
+
+    const isMidi = gameConfig.inputMethod === 'MIDI';
+    const startListening = isMidi
+      ? startMidiNoteListener(pitch => playedPitchHandlerRef.current(pitch))
+      : startMicrophonePitchListener(pitch => playedPitchHandlerRef.current(pitch.note));
+
+    startListening
+      .then(stop => {
+        if (cancelled) stop();
+        else stopListening = stop;
+      })
+      .catch(e => {
+        console.error(`Failed to start ${isMidi ? 'MIDI' : 'microphone'} input`, e);
+        setInputError(isMidi ? 'No MIDI access, use the answer buttons' : 'Microphone unavailable, use the answer buttons');
+      });
+
+    return () => {
+      cancelled = true;
+      stopListening?.();
+    };
+  }, [isListeningForPlayedNotes, gameConfig.inputMethod]);
+
+  const isAnsweringByPlaying = isListeningForPlayedNotes && !inputError;
+
+  const startGameMode = (mode: GameMode) => {
+    if (isStaffGameMode(mode)) {
+      startStaffGame(mode);
+    } else {
+      startGame(mode);
+    }
+  };
 
   // ... Study Mode Handlers
   const toggleStudyNote = (note: string) => {
@@ -1197,6 +2656,9 @@ const App: React.FC = () => {
            {gameState === GameState.STATS && (
               <span className="px-4 py-1.5 bg-purple-900 text-purple-200 rounded-full font-bold text-xs uppercase tracking-wider border border-purple-700/50 shadow-sm">Performance Stats</span>
            )}
+           {gameState === GameState.TUNER && (
+              <span className="px-4 py-1.5 bg-green-900 text-green-200 rounded-full font-bold text-xs uppercase tracking-wider border border-green-700/50 shadow-sm">Tuner</span>
+           )}
            {gameState === GameState.PLAYING && (
               <div className="flex flex-col items-center pointer-events-auto">
                 <div className="flex items-center gap-2 bg-gray-900 px-3 py-1 rounded-full border border-gray-700/50">
@@ -1253,62 +2715,46 @@ const App: React.FC = () => {
                 <p className="text-gray-400 max-w-lg mx-auto text-sm md:text-base">Train your memory, build speed, and track your progress.</p>
               </div>
 
+              <LearnerPicker
+                learners={learners}
+                activeLearnerId={activeLearnerId}
+                onSelect={switchLearner}
+                onCreate={createLearner}
+                onRename={renameLearner}
+                onDelete={deleteLearner}
+                lockedReason={syncStatus === 'SYNCING' ? 'Syncing… learners can be switched, added or deleted once it finishes' : null}
+              />
+
               {/* Game Mode Selection */}
               <div className="w-full max-w-2xl">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {/* Fretboard Game */}
-                  <button
-                    onClick={() => { setSelectedMenuMode(GameMode.FRETBOARD_TO_NOTE); setShowSettings(true); }}
-                    className={`group relative p-6 rounded-2xl border transition-all transform hover:-translate-y-1 shadow-xl ${
-                      selectedMenuMode === GameMode.FRETBOARD_TO_NOTE
-                        ? 'bg-gradient-to-br from-blue-600/40 to-indigo-600/40 border-blue-400 ring-2 ring-blue-400/50'
-                        : 'bg-gradient-to-br from-blue-600/20 to-indigo-600/20 border-blue-500/30 hover:border-blue-400/50'
-                    }`}
-                  >
-                    <div className="flex flex-col items-center gap-3">
-                      <div className={`w-16 h-16 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-lg transition-transform ${selectedMenuMode === GameMode.FRETBOARD_TO_NOTE ? 'scale-110' : 'group-hover:scale-110'}`}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
-                        </svg>
-                      </div>
-                      <div className="text-center">
-                        <h3 className="text-lg font-bold text-white">Fretboard Training</h3>
-                        <p className="text-xs text-gray-400 mt-1">See a note on the fretboard, name it</p>
-                      </div>
-                    </div>
-                    {selectedMenuMode === GameMode.FRETBOARD_TO_NOTE && (
-                      <div className="absolute -top-2 -right-2 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
-                        <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
-                      </div>
-                    )}
-                  </button>
-
-                  {/* Staff Reading Game */}
-                  <button
-                    onClick={() => { setSelectedMenuMode(GameMode.STAFF_TO_NOTE); setShowSettings(true); }}
-                    className={`group relative p-6 rounded-2xl border transition-all transform hover:-translate-y-1 shadow-xl ${
-                      selectedMenuMode === GameMode.STAFF_TO_NOTE
-                        ? 'bg-gradient-to-br from-purple-600/40 to-pink-600/40 border-purple-400 ring-2 ring-purple-400/50'
-                        : 'bg-gradient-to-br from-purple-600/20 to-pink-600/20 border-purple-500/30 hover:border-purple-400/50'
-                    }`}
-                  >
-                    <div className="flex flex-col items-center gap-3">
-                      <div className={`w-16 h-16 rounded-xl bg-gradient-to-br from-purple-500 to-pink-600 flex items-center justify-center shadow-lg transition-transform ${selectedMenuMode === GameMode.STAFF_TO_NOTE ? 'scale-110' : 'group-hover:scale-110'}`}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
-                        </svg>
-                      </div>
-                      <div className="text-center">
-                        <h3 className="text-lg font-bold text-white">Sight Reading</h3>
-                        <p className="text-xs text-gray-400 mt-1">See a note on the staff, name it</p>
-                      </div>
-                    </div>
-                    {selectedMenuMode === GameMode.STAFF_TO_NOTE && (
-                      <div className="absolute -top-2 -right-2 w-6 h-6 bg-purple-500 rounded-full flex items-center justify-center">
-                        <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
-                      </div>
-                    )}
-                  </button>
+                  {MENU_MODE_OPTIONS.map(option => {
+                    const isSelected = selectedMenuMode === option.mode;
+                    return (
+                      <button
+                        key={option.mode}
+                        onClick={() => { setSelectedMenuMode(option.mode); setShowSettings(true); }}
+                        className={`group relative p-6 rounded-2xl border transition-all transform hover:-translate-y-1 shadow-xl ${isSelected ? option.cardSelectedClass : option.cardClass}`}
+                      >
+                        <div className="flex flex-col items-center gap-3">
+                          <div className={`w-16 h-16 rounded-xl bg-gradient-to-br ${option.iconClass} flex items-center justify-center shadow-lg transition-transform ${isSelected ? 'scale-110' : 'group-hover:scale-110'}`}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={option.iconPath} />
+                            </svg>
+                          </div>
+                          <div className="text-center">
+                            <h3 className="text-lg font-bold text-white">{option.title}</h3>
+                            <p className="text-xs text-gray-400 mt-1">{option.description}</p>
+                          </div>
+                        </div>
+                        {isSelected && (
+                          <div className={`absolute -top-2 -right-2 w-6 h-6 ${option.badgeClass} rounded-full flex items-center justify-center`}>
+                            <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+                          </div>
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
 
                 {/* Study Mode Button */}
@@ -1327,22 +2773,29 @@ const App: React.FC = () => {
                   <span className="text-purple-400">📊</span>
                   <span className="font-bold text-gray-300 group-hover:text-white">View Performance Stats & Heatmap</span>
                 </button>
+
+                {/* Tuner Entry */}
+                <button
+                  onClick={() => setGameState(GameState.TUNER)}
+                  className="w-full mt-2 py-3 bg-gray-800 hover:bg-gray-750 border border-gray-700 rounded-xl flex items-center justify-center gap-2 group transition-all"
+                >
+                  <span className="text-green-400">🎸</span>
+                  <span className="font-bold text-gray-300 group-hover:text-white">Tune Up ({activeGuitar.tuningName})</span>
+                </button>
               </div>
 
               {/* Settings Panel - Expands when mode selected */}
               <div className={`w-full max-w-3xl overflow-hidden transition-all duration-500 ease-in-out ${selectedMenuMode && showSettings ? 'max-h-[2000px] opacity-100' : 'max-h-0 opacity-0'}`}>
                 <div className="bg-gray-800/50 rounded-2xl border border-gray-700 p-6 shadow-xl backdrop-blur-sm">
                   {/* Start Game Button */}
-                  <button
-                    onClick={() => selectedMenuMode === GameMode.STAFF_TO_NOTE ? startStaffGame() : startGame()}
-                    className={`w-full py-4 mb-6 rounded-xl font-bold text-lg shadow-xl transition-all transform hover:-translate-y-0.5 ${
-                      selectedMenuMode === GameMode.STAFF_TO_NOTE
-                        ? 'bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 shadow-purple-900/30'
-                        : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 shadow-blue-900/30'
-                    }`}
-                  >
-                    Start {selectedMenuMode === GameMode.STAFF_TO_NOTE ? 'Sight Reading' : 'Fretboard Training'}
-                  </button>
+                  {selectedMenuMode && (
+                    <button
+                      onClick={() => startGameMode(selectedMenuMode)}
+                      className={`w-full py-4 mb-6 rounded-xl font-bold text-lg shadow-xl transition-all transform hover:-translate-y-0.5 ${getMenuModeOption(selectedMenuMode).startClass}`}
+                    >
+                      Start {getMenuModeOption(selectedMenuMode).title}
+                    </button>
+                  )}
 
                   {/* Common Settings */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -1371,15 +2824,14 @@ const App: React.FC = () => {
                               </label>
                           </div>
                         </div>
-                        <div className={`space-y-2 transition-opacity duration-300 ${gameConfig.focusMode === FocusMode.KEY ? 'opacity-100' : 'opacity-25 pointer-events-none'}`}>
-                          <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Target Key</label>
+                        <div className={`space-y-2 transition-opacity duration-300 ${gameConfig.focusMode === FocusMode.KEY || selectedMenuMode === GameMode.FRETBOARD_TO_DEGREE ? 'opacity-100' : 'opacity-25 pointer-events-none'}`}>
+                          <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">{selectedMenuMode === GameMode.FRETBOARD_TO_DEGREE ? 'Tonal Center' : 'Target Key'}</label>
                           <div className="flex gap-2">
                               <select value={gameConfig.keyRoot || 'C'} onChange={(e) => setGameConfig(p => ({ ...p, keyRoot: e.target.value }))} className="bg-gray-700 text-white rounded p-2 text-sm flex-1 outline-none border border-gray-600 focus:border-blue-500">
                                 {NOTES_SHARP.map(n => <option key={n} value={n}>{n}</option>)}
                               </select>
                               <select value={gameConfig.keyScale || 'MAJOR'} onChange={(e) => setGameConfig(p => ({ ...p, keyScale: e.target.value as ScaleType }))} className="bg-gray-700 text-white rounded p-2 text-sm flex-1 outline-none border border-gray-600 focus:border-blue-500">
-                                <option value="MAJOR">Major</option>
-                                <option value="NATURAL_MINOR">Minor</option>
+                                {KEY_SCALE_OPTIONS.map(o => <option key={o.value} value={o.value || ''}>{o.label}</option>)}
                               </select>
                           </div>
                         </div>
@@ -1387,10 +2839,42 @@ const App: React.FC = () => {
                            <div className="flex justify-between text-xs font-bold text-gray-500 uppercase tracking-wider"><span>Timer Duration</span><span className="text-white">{gameConfig.timeLimit}s</span></div>
                            <input type="range" min="3" max="30" step="1" value={gameConfig.timeLimit} onChange={(e) => setGameConfig(p => ({ ...p, timeLimit: Number(e.target.value) }))} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-500" />
                         </div>
+                        <div className="space-y-2 pt-2 border-t border-gray-700">
+                           <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Play Note</label>
+                           <div className="flex gap-2">
+                             {PLAYBACK_OPTIONS.map(option => (
+                               <button
+                                 key={option.value}
+                                 onClick={() => setGameConfig(p => ({ ...p, playback: option.value }))}
+                                 className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${gameConfig.playback === option.value ? 'bg-teal-600 text-white shadow-lg' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                               >
+                                 {option.label}
+                               </button>
+                             ))}
+                           </div>
+                           <p className="text-xs text-gray-500">{gameConfig.playback === 'NEVER' ? 'Silent' : 'Mistakes always play the correct note'}</p>
+                        </div>
+                        <div className="space-y-2 pt-2 border-t border-gray-700">
+                           <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Answer With</label>
+                           <div className="flex gap-2">
+                             {INPUT_METHOD_OPTIONS.map(option => (
+                               <button
+                                 key={option.value}
+                                 onClick={() => setGameConfig(p => ({ ...p, inputMethod: option.value }))}
+                                 className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${gameConfig.inputMethod === option.value ? 'bg-teal-600 text-white shadow-lg' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                               >
+                                 {option.label}
+                               </button>
+                             ))}
+                           </div>
+                           {gameConfig.inputMethod !== 'BUTTONS' && (
+                             <p className="text-xs text-gray-500">Play the note instead of tapping it in Fretboard Training, Sight Reading{gameConfig.inputMethod === 'MIDI' ? ' and Ear to Note' : ''}</p>
+                           )}
+                        </div>
                     </div>
                     <div className="space-y-6">
                         {/* Fretboard-specific settings */}
-                        {selectedMenuMode === GameMode.FRETBOARD_TO_NOTE && (
+                        {selectedMenuMode && !isStaffGameMode(selectedMenuMode) && (
                           <div className="space-y-4">
                             <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Fret Range Config</label>
                             <div className="space-y-1">
@@ -1401,11 +2885,52 @@ const App: React.FC = () => {
                                 <div className="flex justify-between text-xs"><span>Max Cap (Level Up Limit)</span><span className="font-bold text-orange-400">0 - {gameConfig.maxFretCap}</span></div>
                                 <input type="range" min={gameConfig.startingFret} max={TOTAL_FRETS} value={gameConfig.maxFretCap} onChange={(e) => setGameConfig(p => ({ ...p, maxFretCap: Number(e.target.value) }))} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500" />
                             </div>
+                            {EAR_TRAINING_MODES.includes(selectedMenuMode) && (
+                              <div className="space-y-2 pt-2 border-t border-gray-700">
+                                <div className="flex items-center justify-between">
+                                  <div>
+                                    <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Reference Note</label>
+                                    <p className="text-xs text-gray-500 mt-1">Play the open low string first</p>
+                                  </div>
+                                  <button
+                                    onClick={() => setGameConfig(p => ({ ...p, earReference: !p.earReference }))}
+                                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                                      gameConfig.earReference ? 'bg-yellow-600' : 'bg-gray-600'
+                                    }`}
+                                  >
+                                    <span
+                                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                                        gameConfig.earReference ? 'translate-x-6' : 'translate-x-1'
+                                      }`}
+                                    />
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                            {selectedMenuMode === GameMode.FRETBOARD_TO_OCTAVES && (
+                              <div className="space-y-2 pt-2 border-t border-gray-700">
+                                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Match</label>
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={() => setGameConfig(p => ({ ...p, octaveMatch: 'PITCH_CLASS' }))}
+                                    className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${gameConfig.octaveMatch === 'PITCH_CLASS' ? 'bg-teal-600 text-white shadow-lg' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                                  >
+                                    Any Octave
+                                  </button>
+                                  <button
+                                    onClick={() => setGameConfig(p => ({ ...p, octaveMatch: 'UNISON' }))}
+                                    className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${gameConfig.octaveMatch === 'UNISON' ? 'bg-teal-600 text-white shadow-lg' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                                  >
+                                    Unisons Only
+                                  </button>
+                                </div>
+                              </div>
+                            )}
                           </div>
                         )}
 
                         {/* Staff-specific settings */}
-                        {selectedMenuMode === GameMode.STAFF_TO_NOTE && (
+                        {selectedMenuMode && STAFF_NOTATION_MODES.includes(selectedMenuMode) && (
                           <div className="space-y-4">
                             {/* Clef Selection */}
                             <div className="space-y-2">
@@ -1454,6 +2979,30 @@ const App: React.FC = () => {
                               </div>
                             </div>
 
+                            {selectedMenuMode === GameMode.KEY_SIGNATURE_TO_KEY && (
+                            <div className="space-y-2 pt-2 border-t border-gray-700">
+                              <div className="flex items-center justify-between">
+                                <div>
+                                  <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Ask for Modes</label>
+                                  <p className="text-xs text-gray-500 mt-1">Show a tonic and name its mode</p>
+                                </div>
+                                <button
+                                  onClick={() => setStaffGameConfig(p => ({ ...p, keySignatureModes: !p.keySignatureModes }))}
+                                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                                    staffGameConfig.keySignatureModes ? 'bg-purple-600' : 'bg-gray-600'
+                                  }`}
+                                >
+                                  <span
+                                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                                      staffGameConfig.keySignatureModes ? 'translate-x-6' : 'translate-x-1'
+                                    }`}
+                                  />
+                                </button>
+                              </div>
+                            </div>
+                            )}
+
+                            {isStaffGameMode(selectedMenuMode) && selectedMenuMode !== GameMode.KEY_SIGNATURE_TO_KEY && (<>
                             {/* Note Range Selector */}
                             <div className="space-y-2 pt-2 border-t border-gray-700">
                               <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Note Range</label>
@@ -1465,6 +3014,7 @@ const App: React.FC = () => {
                               />
                             </div>
 
+                            {(selectedMenuMode === GameMode.STAFF_TO_NOTE || selectedMenuMode === GameMode.STAFF_RHYTHM) && (<>
                             {/* Note Durations */}
                             <div className="space-y-2 pt-2 border-t border-gray-700">
                               <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Note Types</label>
@@ -1550,7 +3100,7 @@ const App: React.FC = () => {
                               </div>
                               <input
                                 type="range"
-                                min="1"
+                                min={selectedMenuMode === GameMode.STAFF_RHYTHM ? 2 : 1}
                                 max="8"
                                 step="1"
                                 value={staffGameConfig.noteCount}
@@ -1558,9 +3108,70 @@ const App: React.FC = () => {
                                 className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
                               />
                               <p className="text-xs text-gray-500">
-                                {staffGameConfig.noteCount === 1 ? 'Single note per question' : `Identify ${staffGameConfig.noteCount} notes in sequence`}
+                                {staffGameConfig.noteCount === 1 && selectedMenuMode !== GameMode.STAFF_RHYTHM ? 'Single note per question' : `Identify ${Math.max(2, staffGameConfig.noteCount)} notes in sequence`}
+                              </p>
+                            </div>
+
+                            {(staffGameConfig.noteCount > 1 || selectedMenuMode === GameMode.STAFF_RHYTHM) && (<>
+                            {/* Passage Meter */}
+                            <div className="space-y-2 pt-2 border-t border-gray-700">
+                              <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Time Signature</label>
+                              <div className="flex gap-2">
+                                {TIME_SIGNATURE_OPTIONS.map(ts => (
+                                  <button
+                                    key={ts}
+                                    onClick={() => setStaffGameConfig(p => ({ ...p, timeSignature: ts }))}
+                                    className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${staffGameConfig.timeSignature === ts ? 'bg-purple-600 text-white shadow-lg' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                                  >
+                                    {ts}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+
+                            {/* Melodic Leap Limit */}
+                            <div className="space-y-2 pt-2 border-t border-gray-700">
+                              <div className="flex justify-between text-xs font-bold text-gray-500 uppercase tracking-wider">
+                                <span>Largest Leap</span>
+                                <span className="text-purple-400">{LEAP_LABELS[staffGameConfig.maxLeap]}</span>
+                              </div>
+                              <input
+                                type="range"
+                                min="1"
+                                max="7"
+                                step="1"
+                                value={staffGameConfig.maxLeap}
+                                onChange={(e) => setStaffGameConfig(p => ({ ...p, maxLeap: Number(e.target.value) }))}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                              />
+                              <p className="text-xs text-gray-500">
+                                {staffGameConfig.maxLeap === 1 ? 'Stepwise motion only' : 'Steps and leaps up to this interval'}
+                              </p>
+                            </div>
+
+                            {selectedMenuMode === GameMode.STAFF_RHYTHM && (
+                            <div className="space-y-2 pt-2 border-t border-gray-700">
+                              <div className="flex justify-between text-xs font-bold text-gray-500 uppercase tracking-wider">
+                                <span>Tempo</span>
+                                <span className="text-purple-400">{staffGameConfig.bpm} BPM</span>
+                              </div>
+                              <input
+                                type="range"
+                                min="40"
+                                max="160"
+                                step="5"
+                                value={staffGameConfig.bpm}
+                                onChange={(e) => setStaffGameConfig(p => ({ ...p, bpm: Number(e.target.value) }))}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                              />
+                              <p className="text-xs text-gray-500">
+                                Clicks on every {staffGameConfig.timeSignature === '6/8' ? 'eighth' : 'quarter'} note, after a one-measure count-in
                               </p>
                             </div>
+                            )}
+                            </>)}
+                            </>)}
+                            </>)}
                           </div>
                         )}
                     </div>
@@ -1607,6 +3218,11 @@ const App: React.FC = () => {
            </div>
         )}
         
+        {/* TUNER SCREEN */}
+        {gameState === GameState.TUNER && (
+           <Tuner profile={activeGuitar} onBack={() => setGameState(GameState.MENU)} />
+        )}
+
         {/* STATS MODE SCREEN */}
         {gameState === GameState.STATS && (
            <div className="flex flex-col items-center h-full overflow-hidden">
@@ -1616,16 +3232,113 @@ const App: React.FC = () => {
                  <div className="flex justify-between items-center">
                    <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
                       <button onClick={() => setStatsTab('heatmap')} className={`px-4 py-1.5 text-sm font-bold rounded transition-colors ${statsTab === 'heatmap' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>Heatmap</button>
+                      <button onClick={() => setStatsTab('staff')} className={`px-4 py-1.5 text-sm font-bold rounded transition-colors ${statsTab === 'staff' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>Sight Reading</button>
+                      <button onClick={() => setStatsTab('confusion')} className={`px-4 py-1.5 text-sm font-bold rounded transition-colors ${statsTab === 'confusion' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>Confusions</button>
                       <button onClick={() => setStatsTab('timeline')} className={`px-4 py-1.5 text-sm font-bold rounded transition-colors ${statsTab === 'timeline' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>Performance Timeline</button>
                    </div>
-                   <button onClick={() => setGameState(GameState.MENU)} className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white border border-gray-600 rounded-lg text-sm font-bold shadow transition-colors">
-                      Exit Stats
-                   </button>
+                   <div className="flex gap-2">
+                     <button onClick={() => setShowBackupPanel(p => !p)} className={`px-4 py-2 border rounded-lg text-sm font-bold shadow transition-colors ${showBackupPanel ? 'bg-gray-600 text-white border-gray-500' : 'bg-gray-800 hover:bg-gray-700 text-white border-gray-600'}`}>
+                        Backup & Sync
+                     </button>
+                     <button onClick={() => setGameState(GameState.MENU)} className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white border border-gray-600 rounded-lg text-sm font-bold shadow transition-colors">
+                        Exit Stats
+                     </button>
+                   </div>
                  </div>
 
+                 {/* Backup: export everything, or restore it from a file */}
+                 {showBackupPanel && (
+                   <div className="flex flex-col gap-2 bg-gray-800/50 p-3 rounded-xl border border-gray-700">
+                     <div className="flex flex-wrap gap-2 items-center">
+                       <button onClick={exportBackup} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs font-bold">Export Backup (JSON)</button>
+                       <button onClick={exportHistoryCsv} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs font-bold">Export Answers (CSV)</button>
+                       <label className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs font-bold cursor-pointer">
+                         Import Backup…
+                         <input
+                           type="file"
+                           accept="application/json,.json"
+                           className="hidden"
+                           onChange={(e) => {
+                             const file = e.target.files?.[0];
+                             if (file) handleBackupFile(file);
+                             e.target.value = '';
+                           }}
+                         />
+                       </label>
+                     </div>
+
+                     {pendingImport && (
+                       <div className="flex flex-wrap gap-2 items-center text-xs text-gray-300 pt-2 border-t border-gray-700/50">
+                         <span>
+                           Backup from {pendingImport.exportedAt ? new Date(pendingImport.exportedAt).toLocaleDateString() : 'an unknown date'}: {pendingImport.data.history.length} sessions, {pendingImport.data.guitars.length} guitars.
+                         </span>
+                         <button onClick={() => applyImport('MERGE')} className="px-3 py-1 bg-green-600 hover:bg-green-500 text-white rounded font-bold">Merge</button>
+                         <button onClick={() => applyImport('REPLACE')} className="px-3 py-1 bg-red-600 hover:bg-red-500 text-white rounded font-bold">Replace</button>
+                         <button onClick={() => setPendingImport(null)} className="px-3 py-1 text-gray-400 hover:text-white">Cancel</button>
+                       </div>
+                     )}
+
+                     {backupErrors.length > 0 && (
+                       <ul className="text-xs text-red-400 list-disc list-inside pt-2 border-t border-gray-700/50">
+                         {backupErrors.map(error => <li key={error}>{error}</li>)}
+                       </ul>
+                     )}
+
+                     {/* Sync with a self-hosted server, so several devices share one history and set of stats */}
+                     <div className="flex flex-col gap-2 pt-2 border-t border-gray-700/50">
+                       <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Sync Server</span>
+                       {syncSettings ? (
+                         <div className="flex flex-wrap gap-2 items-center text-xs text-gray-300">
+                           <span className="font-mono text-white truncate max-w-xs">{syncSettings.endpoint}</span>
+                           <span className={syncStatus === 'ERROR' ? 'text-red-400' : 'text-gray-400'}>
+                             {syncStatus === 'SYNCING' ? 'Syncing…'
+                               : syncStatus === 'ERROR' ? `Not synced: ${syncError}`
+                               : syncSettings.lastSyncedAt ? `Synced ${new Date(syncSettings.lastSyncedAt).toLocaleString()}`
+                               : 'Not synced yet'}
+                           </span>
+                           {!isOutboxEmpty(syncOutboxRef.current) && <span className="text-amber-400">Changes waiting to sync</span>}
+                           <button onClick={() => setSyncRequest(n => n + 1)} disabled={syncStatus === 'SYNCING'} className="px-3 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded font-bold">Sync Now</button>
+                           <button onClick={disconnectSync} className="px-3 py-1 text-gray-400 hover:text-white">Disconnect</button>
+                         </div>
+                       ) : (
+                         <div className="flex flex-wrap gap-2 items-center">
+                           <input
+                             type="url"
+                             value={syncEndpointInput}
+                             placeholder="https://example.com/fretude/sync"
+                             onChange={(e) => setSyncEndpointInput(e.target.value)}
+                             className="flex-1 min-w-[200px] bg-gray-800 border border-gray-600 rounded px-3 py-1.5 text-xs text-white focus:border-blue-500 outline-none"
+                           />
+                           <input
+                             type="password"
+                             value={syncTokenInput}
+                             placeholder="Token (optional)"
+                             onChange={(e) => setSyncTokenInput(e.target.value)}
+                             className="w-40 bg-gray-800 border border-gray-600 rounded px-3 py-1.5 text-xs text-white focus:border-blue-500 outline-none"
+                           />
+                           <button onClick={connectSync} disabled={!syncEndpointInput.trim()} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded text-xs font-bold">Connect</button>
+                         </div>
+                       )}
+                     </div>
+                   </div>
+                 )}
+
                  {/* Heatmap Controls */}
-                 {statsTab === 'heatmap' && (
+                 {statsTab !== 'timeline' && (
                    <div className="flex flex-col gap-2 bg-gray-800/50 p-3 rounded-xl border border-gray-700">
+                     {statsTab === 'confusion' ? (
+                       <div className="flex justify-between items-center">
+                          <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider">String</h3>
+                          <div className="flex bg-gray-800 rounded p-1 border border-gray-700">
+                              <button onClick={() => setConfusionString(null)} className={`px-3 py-1 text-xs font-bold rounded ${confusionString === null ? 'bg-purple-600 text-white' : 'text-gray-400'}`}>All</button>
+                              {activeGuitar.tuning.map((offset, stringIndex) => (
+                                <button key={stringIndex} onClick={() => setConfusionString(stringIndex)} className={`px-3 py-1 text-xs font-bold rounded ${confusionString === stringIndex ? 'bg-purple-600 text-white' : 'text-gray-400'}`}>
+                                  {getDisplayNoteName(getNoteAtPosition(offset, 0), null, null, accidentalPreference)}
+                                </button>
+                              ))}
+                          </div>
+                       </div>
+                     ) : (
                      <div className="flex justify-between items-center">
                         <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider">Analysis Metric</h3>
                         <div className="flex bg-gray-800 rounded p-1 border border-gray-700">
@@ -1634,9 +3347,34 @@ const App: React.FC = () => {
                             <button onClick={() => setHeatmapMetric(HeatmapMetric.FREQUENCY)} className={`px-3 py-1 text-xs font-bold rounded ${heatmapMetric === HeatmapMetric.FREQUENCY ? 'bg-blue-600 text-white' : 'text-gray-400'}`}>Plays</button>
                         </div>
                      </div>
+                     )}
                      
+                     {/* Answers at the picked heatmap cell, over all history */}
+                     {statsTab === 'heatmap' && positionDetail && positionDetail.tuningName === activeGuitar.tuningName && (
+                       <div className="flex justify-between items-center gap-2 text-xs">
+                          <span className="text-gray-300">
+                            <span className="font-bold">{getDisplayNoteName(getNoteAtPosition(activeGuitar.tuning[positionDetail.stringIndex], positionDetail.fretIndex), null, null, accidentalPreference)}</span>
+                            {' '}({getDisplayNoteName(getNoteAtPosition(activeGuitar.tuning[positionDetail.stringIndex], 0), null, null, accidentalPreference)} string, fret {positionDetail.fretIndex}):{' '}
+                            {positionDetail.lastAskedAt === null ? 'never asked'
+                              : `${positionDetail.correct} of ${positionDetail.total} correct, last asked ${new Date(positionDetail.lastAskedAt).toLocaleDateString()}`}
+                          </span>
+                          <button onClick={() => setPositionDetail(null)} className="text-gray-400 hover:text-white font-bold">✕</button>
+                       </div>
+                     )}
+
+                     {/* Staff heatmap: results are kept per clef */}
+                     {statsTab === 'staff' && (
+                       <div className="flex justify-between items-center">
+                          <h3 className="text-gray-400 font-bold uppercase text-xs tracking-wider">Clef</h3>
+                          <div className="flex bg-gray-800 rounded p-1 border border-gray-700">
+                              <button onClick={() => setStaffHeatmapClef('treble')} className={`px-3 py-1 text-xs font-bold rounded ${staffHeatmapClef === 'treble' ? 'bg-purple-600 text-white' : 'text-gray-400'}`}>Treble</button>
+                              <button onClick={() => setStaffHeatmapClef('bass')} className={`px-3 py-1 text-xs font-bold rounded ${staffHeatmapClef === 'bass' ? 'bg-purple-600 text-white' : 'text-gray-400'}`}>Bass</button>
+                          </div>
+                       </div>
+                     )}
+
                      {/* Timeline Scrubber (Unified Dual Slider) */}
-                     {history.length > 1 && (
+                     {statsTab !== 'staff' && history.length > 1 && (
                        <div className="mt-2 pt-2 border-t border-gray-700/50">
                          <div className="flex justify-between text-xs text-gray-400 mb-2">
                             <span>Window: <span className="text-white font-mono">{timelineWindow.start + 1}</span> - <span className="text-white font-mono">{timelineWindow.end + 1}</span> ({history.length} sessions)</span>
@@ -1703,10 +3441,22 @@ const App: React.FC = () => {
                         orientation={isMobile ? 'vertical' : 'horizontal'}
                         tuningOffsets={activeGuitar.tuning}
                         heatmapData={getHeatmapData()}
+                        onPositionSelect={showPositionDetail}
                         rootNote={gameConfig.keyRoot}
                         scaleType={gameConfig.keyScale}
                         accidentalPreference={accidentalPreference}
                     />
+                  ) : statsTab === 'confusion' ? (
+                    <ConfusionMatrix
+                        counts={getConfusionCounts(getNoteNamingInteractions(history.slice(timelineWindow.start, timelineWindow.end + 1)), confusionString)}
+                        labels={NOTES_SHARP.map(n => getDisplayNoteName(n, null, null, accidentalPreference))}
+                    />
+                  ) : statsTab === 'staff' ? (
+                    <StaffHeatmap
+                        heatmapData={getStaffHeatmapData()}
+                        lowSemitone={STAFF_HEATMAP_LOW}
+                        highSemitone={STAFF_HEATMAP_HIGH}
+                    />
                   ) : (
                     <div className="h-full w-full bg-gray-900/50 rounded-xl p-4 border border-gray-700 shadow-xl overflow-hidden">
                        <StatsChart history={history} />
@@ -1776,11 +3526,30 @@ const App: React.FC = () => {
 
             {/* Game Board + Controls Container */}
             <div className="w-full flex flex-col md:flex-col relative min-h-0 md:justify-center flex-1">
+               {/* Written Target (Staff to Fretboard) */}
+               {currentGameMode === GameMode.STAFF_TO_FRETBOARD && targetStaffNote && (
+                 <div className="flex-none w-full flex justify-center mb-2 px-4">
+                   <div className="bg-gray-800/50 rounded-2xl px-4 border border-gray-700/50 shadow-xl">
+                     <Staff
+                       note={targetStaffNote}
+                       clef={currentClef}
+                       width={isMobile ? 220 : 260}
+                       height={isMobile ? 120 : 140}
+                       showClef={true}
+                       feedbackState={feedback.status}
+                       accidentalPreference={accidentalPreference}
+                       animated={!isProcessing}
+                       octaveTransposition={staffGameConfig.useGuitarTransposition ? 1 : 0}
+                     />
+                   </div>
+                 </div>
+               )}
+
                {/* Fretboard Section */}
                <div className="w-full px-2 flex flex-col items-center justify-center mb-4 flex-1 min-h-0"> 
                  <div className="w-full max-w-5xl h-full"> 
                     <Fretboard 
-                        activeNote={targetNote} 
+                        activeNote={(TAP_ANSWER_MODES.includes(currentGameMode) && currentGameMode !== GameMode.FRETBOARD_TO_OCTAVES) || EAR_TRAINING_MODES.includes(currentGameMode) ? null : targetNote} 
                         maxFret={currentMaxFret} 
                         activePowerup={activePowerup} 
                         orientation={isMobile ? 'vertical' : 'horizontal'}
@@ -1788,6 +3557,9 @@ const App: React.FC = () => {
                         scaleType={gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null}
                         tuningOffsets={activeGuitar.tuning}
                         accidentalPreference={accidentalPreference}
+                        onPositionSelect={TAP_ANSWER_MODES.includes(currentGameMode) ? handlePositionSelect : undefined}
+                        markedPositions={markedPositions}
+                        referenceNote={currentGameMode === GameMode.FRETBOARD_TO_INTERVAL ? intervalRoot : null}
                     />
                  </div>
                </div>
@@ -1798,10 +3570,115 @@ const App: React.FC = () => {
                     {feedback.message}
                   </div>
 
-                  <div className="w-full max-w-2xl flex flex-wrap justify-center gap-2 md:gap-4 px-4">
+                  {/* Ear Training Prompt */}
+                  {EAR_TRAINING_MODES.includes(currentGameMode) && targetNote && (
+                    <div className="flex flex-col items-center gap-2 mb-2">
+                      <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">
+                        {currentGameMode === GameMode.EAR_TO_FRETBOARD ? 'Tap where this exact pitch is played' : 'Name the note you hear'}
+                      </span>
+                      <button
+                        onClick={playEarPrompt}
+                        className="px-4 py-2 rounded-lg bg-gray-800 border border-yellow-500/50 text-yellow-300 font-bold text-sm hover:bg-gray-700 transition-colors"
+                      >
+                        🔊 Play Again
+                      </button>
+                      {gameConfig.earReference && (
+                        <span className="text-xs text-gray-400">Reference: {getFeedbackNoteName(getEarReferencePitch().noteName)}{getEarReferencePitch().octave}, then the target</span>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Staff to Fretboard Prompt */}
+                  {currentGameMode === GameMode.STAFF_TO_FRETBOARD && targetStaffNote && (
+                    <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">Tap where this exact pitch is played</span>
+                  )}
+
+                  {/* Fretboard to Staff Entry */}
+                  {currentGameMode === GameMode.FRETBOARD_TO_STAFF && targetNote && (
+                    <div className="flex flex-col items-center gap-1">
+                      <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">Write this pitch on the staff</span>
+                      <StaffNoteInput
+                        value={placedStaffNote}
+                        onChange={setPlacedStaffNote}
+                        onSubmit={checkStaffEntry}
+                        clef={currentClef}
+                        width={isMobile ? 280 : 320}
+                        height={isMobile ? 180 : 220}
+                        accidentalPreference={accidentalPreference}
+                        feedbackState={isProcessing ? feedback.status : 'neutral'}
+                        disabled={isProcessing}
+                        octaveTransposition={staffGameConfig.useGuitarTransposition ? 1 : 0}
+                      />
+                    </div>
+                  )}
+
+                  {/* Interval Prompt */}
+                  {currentGameMode === GameMode.FRETBOARD_TO_INTERVAL && targetInterval && (
+                    <span className="text-xs text-gray-500 font-bold uppercase tracking-wider mb-2">Name the interval from R up to the blue note</span>
+                  )}
+
+                  {/* Scale Degree Prompt */}
+                  {currentGameMode === GameMode.FRETBOARD_TO_DEGREE && targetNote && (
+                    <span className="text-xs text-gray-500 font-bold uppercase tracking-wider mb-2">
+                      Scale degree in {getDisplayNoteName(gameConfig.keyRoot || 'C', gameConfig.keyRoot, gameConfig.keyScale, accidentalPreference)} {getKeyScaleLabel(gameConfig.keyScale)}
+                    </span>
+                  )}
+
+                  {/* Chord Tone Prompt */}
+                  {currentGameMode === GameMode.FRETBOARD_TO_CHORD_TONE && targetChord && (
+                    <div className="flex flex-col items-center gap-1 mb-2">
+                      <span className="text-4xl md:text-5xl font-black text-white">
+                        {getDisplayNoteName(targetChord.root, null, null, accidentalPreference)}{CHORD_SYMBOLS[targetChord.quality]}
+                      </span>
+                      <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">Which chord tone is the blue note?</span>
+                    </div>
+                  )}
+
+                  {/* Note Finder Prompt */}
+                  {currentGameMode === GameMode.NOTE_TO_FRETBOARD && targetNote && (
+                    <div className="flex flex-col items-center gap-1">
+                      <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">Find every</span>
+                      <span
+                        className="text-4xl md:text-5xl font-black"
+                        style={{ color: `hsl(${getNoteHue(targetNote.noteName)}, 90%, 70%)`, textShadow: `0 0 20px hsl(${getNoteHue(targetNote.noteName)}, 70%, 25%)` }}
+                      >
+                        {getFeedbackNoteName(targetNote.noteName)}
+                      </span>
+                      <span className="text-xs text-gray-400 font-mono">
+                        {markedPositions.filter(p => p.status === 'found').length}/{targetPositions.length} found
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Octave Finder Prompt */}
+                  {currentGameMode === GameMode.FRETBOARD_TO_OCTAVES && targetNote && (
+                    <div className="flex flex-col items-center gap-1">
+                      <span className="text-sm text-gray-300 font-bold">
+                        {gameConfig.octaveMatch === 'UNISON'
+                          ? `Find every unison of ${getFeedbackNoteName(targetNote.noteName)}${fretboardToStaffNote(activeGuitar.tuning[targetNote.stringIndex], targetNote.fretIndex).octave}`
+                          : `Find every other ${getFeedbackNoteName(targetNote.noteName)}`}
+                      </span>
+                      <span className="text-xs text-gray-400 font-mono">
+                        {markedPositions.filter(p => p.status === 'found').length}/{targetPositions.length} found
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Microphone Input */}
+                  {isAnsweringByPlaying && (
+                    <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-gray-800 border border-teal-500/50 text-teal-300 font-bold text-sm">
+                      <span className="animate-pulse">{gameConfig.inputMethod === 'MIDI' ? '🎹' : '🎤'}</span> {gameConfig.inputMethod === 'MIDI' ? 'Waiting for MIDI… play the note' : 'Listening… play the note on your guitar'}
+                    </div>
+                  )}
+                  {inputError && isListeningForPlayedNotes && (
+                    <div className="text-xs text-red-400 mb-2">{inputError}</div>
+                  )}
+
+                  <div className={`w-full max-w-2xl flex flex-wrap justify-center gap-2 md:gap-4 px-4 ${isAnsweringByPlaying ? 'hidden' : ''}`}>
                     {answerOptions.map((note) => {
-                      const hue = getNoteHue(note);
-                      const displayNote = getDisplayNoteName(
+                      const isLabelOption = LABEL_ANSWER_MODES.includes(currentGameMode);
+                      const hue = getAnswerOptionHue(note);
+                      const displayNote = isLabelOption ? note : getDisplayNoteName(
                          note, 
                          gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null, 
                          gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
@@ -1816,7 +3693,7 @@ const App: React.FC = () => {
                       return (
                         <button
                           key={note}
-                          onClick={() => checkAnswer(note)}
+                          onClick={() => handleAnswerOption(note)}
                           disabled={isProcessing}
                           style={{ 
                              borderColor: isProcessing && !isSelected ? 'transparent' : `hsl(${hue}, 70%, 50%)`, 
@@ -1824,7 +3701,7 @@ const App: React.FC = () => {
                              textShadow: isProcessing && !isSelected ? 'none' : `0 0 10px hsl(${hue}, 70%, 20%)` 
                           }}
                           className={`
-                            min-w-[3.5rem] w-14 md:w-20 py-3 rounded-lg bg-gray-800 border-2 transition-all font-bold text-base md:text-lg shadow-md
+                            min-w-[3.5rem] ${isLabelOption ? 'px-3 md:px-4' : 'w-14 md:w-20'} py-3 rounded-lg bg-gray-800 border-2 transition-all font-bold text-base md:text-lg shadow-md
                             ${processingStyle}
                           `}
                         >
@@ -1888,7 +3765,7 @@ const App: React.FC = () => {
                  <div className="flex items-center gap-2 mb-2">
                    <span className="text-xs text-gray-500 uppercase tracking-wider">Note</span>
                    <div className="flex gap-1">
-                     {targetStaffNotes.map((_, idx) => (
+                     {getAttackIndexes(targetStaffNotes).map(idx => (
                        <div
                          key={idx}
                          className={`w-2 h-2 rounded-full transition-colors ${
@@ -1901,11 +3778,60 @@ const App: React.FC = () => {
                        />
                      ))}
                    </div>
-                   <span className="text-xs text-gray-400">{activeStaffNoteIndex + 1}/{targetStaffNotes.length}</span>
+                   <span className="text-xs text-gray-400">{getAttackIndexes(targetStaffNotes).indexOf(activeStaffNoteIndex) + 1}/{getAttackIndexes(targetStaffNotes).length}</span>
+                 </div>
+               )}
+
+               {/* Rhythm Reading Prompt */}
+               {currentGameMode === GameMode.STAFF_RHYTHM && (
+                 <div className="text-xs text-gray-400 font-bold uppercase tracking-wider mb-2">
+                   {staffGameConfig.timeSignature === '6/8' ? '♪' : '♩'} = {staffGameConfig.bpm} • Name each note on its beat
+                 </div>
+               )}
+
+               {/* Key Signature Prompt */}
+               {currentGameMode === GameMode.KEY_SIGNATURE_TO_KEY && keySignatureRound && (
+                 <div className="flex flex-col items-center gap-1 mb-4">
+                   <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">Name the</span>
+                   <span className="text-2xl md:text-3xl font-black text-fuchsia-300">
+                     {keySignatureRound.question === 'MAJOR' ? 'Major key' : keySignatureRound.question === 'MINOR' ? 'Minor key' : 'Mode starting on this note'}
+                   </span>
+                 </div>
+               )}
+
+               {/* Note Writing Prompt */}
+               {currentGameMode === GameMode.NOTE_TO_STAFF && targetStaffNote && (
+                 <div className="flex flex-col items-center gap-1 mb-4">
+                   <span className="text-xs text-gray-500 font-bold uppercase tracking-wider">Write</span>
+                   <span
+                     className="text-4xl md:text-5xl font-black"
+                     style={{ color: `hsl(${getNoteHue(targetStaffNote.noteName)}, 90%, 70%)`, textShadow: `0 0 20px hsl(${getNoteHue(targetStaffNote.noteName)}, 70%, 25%)` }}
+                   >
+                     {getFeedbackNoteName(targetStaffNote.noteName)}{targetStaffNote.octave}
+                   </span>
+                   {staffGameConfig.useGuitarTransposition && (
+                     <span className="text-xs text-gray-400">Guitar notation: written an octave higher than it sounds</span>
+                   )}
                  </div>
                )}
 
                {/* Staff Section */}
+               {currentGameMode === GameMode.NOTE_TO_STAFF ? (
+                 <div className="w-full max-w-3xl flex justify-center items-center mb-4 px-4">
+                   <StaffNoteInput
+                     value={placedStaffNote}
+                     onChange={setPlacedStaffNote}
+                     onSubmit={checkWrittenNote}
+                     clef={currentClef}
+                     width={isMobile ? 300 : 400}
+                     height={isMobile ? 200 : 240}
+                     accidentalPreference={accidentalPreference}
+                     feedbackState={isProcessing ? feedback.status : 'neutral'}
+                     disabled={isProcessing}
+                     octaveTransposition={staffGameConfig.useGuitarTransposition ? 1 : 0}
+                   />
+                 </div>
+               ) : (
                <div className="w-full max-w-3xl flex justify-center items-center mb-8 px-4">
                  <div className="bg-gray-800/50 rounded-2xl p-4 border border-gray-700/50 shadow-xl">
                    <Staff
@@ -1913,9 +3839,12 @@ const App: React.FC = () => {
                      notes={targetStaffNotes.length > 0 ? targetStaffNotes : undefined}
                      activeNoteIndex={activeStaffNoteIndex}
                      clef={currentClef}
-                     width={isMobile ? 300 : (targetStaffNotes.length > 1 ? Math.min(600, 200 + targetStaffNotes.length * 60) : 400)}
+                     width={isMobile ? 300 : (targetStaffNotes.length > 1 ? Math.min(720, 240 + targetStaffNotes.length * 50) : 400)}
                      height={isMobile ? 150 : 180}
                      showClef={true}
+                     showTimeSignature={targetStaffNotes.length > 0}
+                     timeSignature={staffGameConfig.timeSignature}
+                     keySignature={currentGameMode === GameMode.KEY_SIGNATURE_TO_KEY ? keySignatureRound?.signature.major : undefined}
                      feedbackState={feedback.status}
                      accidentalPreference={accidentalPreference}
                      animated={!isProcessing}
@@ -1923,6 +3852,7 @@ const App: React.FC = () => {
                    />
                  </div>
                </div>
+               )}
 
                {/* Controls Section */}
                <div className="flex-none w-full flex flex-col items-center pb-8 md:pb-0">
@@ -1930,10 +3860,21 @@ const App: React.FC = () => {
                     {feedback.message}
                   </div>
 
-                  <div className="w-full max-w-2xl flex flex-wrap justify-center gap-2 md:gap-4 px-4">
-                    {answerOptions.map((note) => {
-                      const hue = getNoteHue(note);
-                      const displayNote = getDisplayNoteName(
+                  {/* Microphone Input */}
+                  {isAnsweringByPlaying && (
+                    <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-gray-800 border border-teal-500/50 text-teal-300 font-bold text-sm">
+                      <span className="animate-pulse">{gameConfig.inputMethod === 'MIDI' ? '🎹' : '🎤'}</span> {gameConfig.inputMethod === 'MIDI' ? 'Waiting for MIDI… play the note' : 'Listening… play the note on your guitar'}
+                    </div>
+                  )}
+                  {inputError && isListeningForPlayedNotes && (
+                    <div className="text-xs text-red-400 mb-2">{inputError}</div>
+                  )}
+
+                  <div className={`w-full max-w-2xl flex flex-wrap justify-center gap-2 md:gap-4 px-4 ${isAnsweringByPlaying ? 'hidden' : ''}`}>
+                    {answerOptions.map((note, optionIndex) => {
+                      const isKeyOption = currentGameMode === GameMode.KEY_SIGNATURE_TO_KEY;
+                      const hue = isKeyOption ? (optionIndex * 360) / answerOptions.length : getNoteHue(note);
+                      const displayNote = isKeyOption ? getKeySignatureAnswerLabel(note) : getDisplayNoteName(
                          note,
                          gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyRoot : null,
                          gameConfig.focusMode === FocusMode.KEY ? gameConfig.keyScale : null,
@@ -1948,7 +3889,7 @@ const App: React.FC = () => {
                       return (
                         <button
                           key={note}
-                          onClick={() => checkStaffAnswer(note)}
+                          onClick={() => handleStaffAnswerOption(note)}
                           disabled={isProcessing}
                           style={{
                              borderColor: isProcessing && !isSelected ? 'transparent' : `hsl(${hue}, 70%, 50%)`,
@@ -1956,7 +3897,7 @@ const App: React.FC = () => {
                              textShadow: isProcessing && !isSelected ? 'none' : `0 0 10px hsl(${hue}, 70%, 20%)`
                           }}
                           className={`
-                            min-w-[3.5rem] w-14 md:w-20 py-3 rounded-lg bg-gray-800 border-2 transition-all font-bold text-base md:text-lg shadow-md
+                            min-w-[3.5rem] ${isKeyOption ? 'px-3 md:px-4' : 'w-14 md:w-20'} py-3 rounded-lg bg-gray-800 border-2 transition-all font-bold text-base md:text-lg shadow-md
                             ${processingStyle}
                           `}
                         >
@@ -1975,26 +3916,33 @@ const App: React.FC = () => {
           <div className="flex flex-col items-center justify-center h-full p-6 animate-fade-in overflow-y-auto">
              <div className="bg-gray-800 p-8 rounded-2xl shadow-2xl border border-gray-700 max-w-lg w-full text-center">
                <h2 className="text-3xl font-bold mb-2 text-white">Session Complete</h2>
-               <div className={`text-6xl font-black mb-6 ${currentGameMode === GameMode.STAFF_TO_NOTE ? 'text-purple-400' : 'text-amber-500'}`}>{score}</div>
+               <div className={`text-6xl font-black mb-6 ${isStaffGameMode(currentGameMode) ? 'text-purple-400' : 'text-amber-500'}`}>{score}</div>
                <p className="text-gray-400 mb-8">
-                 Mode: <span className={`font-bold ${currentGameMode === GameMode.STAFF_TO_NOTE ? 'text-purple-400' : 'text-blue-400'}`}>
-                   {currentGameMode === GameMode.STAFF_TO_NOTE ? 'Sight Reading' : 'Fretboard Training'}
+                 Mode: <span className={`font-bold ${getMenuModeOption(currentGameMode).accentClass}`}>
+                   {getMenuModeOption(currentGameMode).title}
                  </span> <br/>
                  Difficulty: <span className="text-white font-bold">{difficulty}</span> <br/>
-                 {currentGameMode === GameMode.FRETBOARD_TO_NOTE && (
+                 {!isStaffGameMode(currentGameMode) && (
                    <>Max Fret Reached: <span className="text-white font-bold">{currentMaxFret}</span> <br/></>
                  )}
                  Focus: <span className="text-white font-bold">{gameConfig.focusMode}</span>
-                 {currentGameMode === GameMode.FRETBOARD_TO_NOTE && (
+                 {!isStaffGameMode(currentGameMode) && (
                    <><br />Guitar: <span className="text-blue-400 font-bold">{activeGuitar.name}</span></>
                  )}
+                 {currentGameMode === GameMode.FRETBOARD_TO_CHORD_TONE && history.length > 0 && (
+                   <><br />By Chord:
+                     {getChordQualityBreakdown(history[history.length - 1].interactions || []).map(({ quality, correct, total }) => (
+                       <span key={quality} className="inline-block ml-2 text-white font-bold">{CHORD_SYMBOLS[quality] || 'maj'} {correct}/{total}</span>
+                     ))}
+                   </>
+                 )}
                </p>
                <div className="flex gap-4 justify-center">
                  <button onClick={() => setGameState(GameState.MENU)} className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-bold transition-colors">Main Menu</button>
                  <button
-                   onClick={currentGameMode === GameMode.STAFF_TO_NOTE ? startStaffGame : startGame}
+                   onClick={() => startGameMode(currentGameMode)}
                    className={`px-6 py-3 text-white rounded-lg font-bold shadow-lg transition-colors ${
-                     currentGameMode === GameMode.STAFF_TO_NOTE
+                     isStaffGameMode(currentGameMode)
                        ? 'bg-purple-600 hover:bg-purple-500'
                        : 'bg-amber-600 hover:bg-amber-500'
                    }`}
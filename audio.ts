@@ -0,0 +1,146 @@
+import { StaffNoteData, noteToSemitones } from "./constants";
+
+// ============================================================================
+// PLUCKED STRING SYNTH (Karplus-Strong on Web Audio)
+// ============================================================================
+
+const PLUCK_SECONDS = 1.6;
+const PLUCK_VOLUME = 0.5;
+const STRING_DAMPING = 0.996; // Energy kept per pass round the string; lower dies faster
+
+let audioContext: AudioContext | null = null;
+
+// Rendered plucks by frequency, so repeated notes don't re-run the string simulation
+const pluckCache = new Map<number, AudioBuffer>();
+
+/**
+ * Shared AudioContext, created on first use (browsers only allow audio after a user gesture)
+ */
+export const getAudioContext = (): AudioContext | null => {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') return null;
+  if (!audioContext) {
+    audioContext = new window.AudioContext();
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => { /* stays silent until the next gesture */ });
+  }
+  return audioContext;
+};
+
+/**
+ * Frequency of a sounding pitch in Hz (A4 = 440)
+ */
+export const getNoteFrequency = (note: StaffNoteData): number => {
+  // noteToSemitones counts from C0, MIDI numbers from C-1
+  const midiNumber = noteToSemitones(note) + 12;
+  return 440 * Math.pow(2, (midiNumber - 69) / 12);
+};
+
+/**
+ * Karplus-Strong: a burst of noise circulating in a delay line one period long, averaged
+ * on every pass so the high partials die away first, like a plucked string
+ */
+const renderPluck = (context: AudioContext, frequency: number): AudioBuffer => {
+  const sampleRate = context.sampleRate;
+  const length = Math.floor(sampleRate * PLUCK_SECONDS);
+  const buffer = context.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // The two-point average adds half a sample of delay to each pass
+  const period = Math.max(2, Math.round(sampleRate / frequency - 0.5));
+
+  for (let i = 0; i < period && i < length; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  for (let i = period; i < length; i++) {
+    const previous = i - period - 1 >= 0 ? data[i - period - 1] : 0;
+    data[i] = STRING_DAMPING * 0.5 * (data[i - period] + previous);
+  }
+
+  return buffer;
+};
+
+/**
+ * Plays a sounding pitch as a plucked string. Does nothing where Web Audio is unavailable
+ * @param note Sounding pitch
+ * @param delaySeconds Start this long from now, e.g. to follow a reference note
+ */
+export const playPitch = (note: StaffNoteData, delaySeconds: number = 0): void => {
+  const context = getAudioContext();
+  if (!context) return;
+
+  const frequency = getNoteFrequency(note);
+  const cacheKey = Math.round(frequency * 100);
+  let buffer = pluckCache.get(cacheKey);
+  if (!buffer) {
+    buffer = renderPluck(context, frequency);
+    pluckCache.set(cacheKey, buffer);
+  }
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  // Fade to silence over the note so the buffer never ends on a click
+  const gain = context.createGain();
+  const startTime = context.currentTime + delaySeconds;
+  gain.gain.setValueAtTime(PLUCK_VOLUME, startTime);
+  gain.gain.linearRampToValueAtTime(0, startTime + PLUCK_SECONDS);
+
+  source.connect(gain);
+  gain.connect(context.destination);
+  source.start(startTime);
+};
+
+const CLICK_SECONDS = 0.03;
+const CLICK_FREQUENCY = 1000;
+const ACCENT_FREQUENCY = 1500; // First beat of each measure
+
+/**
+ * Schedules a metronome click track on the audio clock
+ * @param clickCount Number of clicks
+ * @param intervalSeconds Time between clicks
+ * @param accentEvery Accent every n-th click, starting with the first (beats per measure)
+ * @param delaySeconds Start this long from now
+ * @returns Stops any clicks that have not played yet
+ */
+export const scheduleClickTrack = (
+  clickCount: number,
+  intervalSeconds: number,
+  accentEvery: number,
+  delaySeconds: number = 0
+): (() => void) => {
+  const context = getAudioContext();
+  if (!context) return () => {};
+
+  const startTime = context.currentTime + delaySeconds;
+  const oscillators: OscillatorNode[] = [];
+
+  for (let i = 0; i < clickCount; i++) {
+    const clickTime = startTime + i * intervalSeconds;
+    const isAccent = accentEvery > 0 && i % accentEvery === 0;
+
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = isAccent ? ACCENT_FREQUENCY : CLICK_FREQUENCY;
+
+    // Sharp attack, fast exponential decay: a tick rather than a beep
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(isAccent ? PLUCK_VOLUME : PLUCK_VOLUME * 0.6, clickTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, clickTime + CLICK_SECONDS);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(clickTime);
+    oscillator.stop(clickTime + CLICK_SECONDS);
+    oscillators.push(oscillator);
+  }
+
+  return () => {
+    oscillators.forEach(oscillator => {
+      try {
+        oscillator.stop();
+      } catch {
+        // Already finished
+      }
+    });
+  };
+};
@@ -0,0 +1,225 @@
+import { GameConfig, GameMode, GuitarProfile, NoteInteraction, NoteStatsMap, ScoreRecord } from "./types";
+import { StoredData, STORAGE_SCHEMA_VERSION, loadStored, saveStored, runMigrations, migrateRecords, isObject, isFiniteNumber, validateScoreRecord, validateNoteStat, validateGuitar } from "./storage";
+import { loadHistory, replaceHistory } from "./historyDb";
+
+// ============================================================================
+// BACKUP (export / import of everything kept in localStorage)
+// ============================================================================
+
+const BACKUP_FORMAT = 'fretude-backup';
+const BACKUP_VERSION = 1;
+
+// Sync settings stay out of backups: they hold the server token and belong to this device
+export type BackupData = Omit<StoredData, 'syncSettings' | 'syncOutbox' | 'syncedCounts'>;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // Storage schema the data was saved under; backups from before schemas are 0
+  exportedAt: string;
+  data: BackupData;
+}
+
+// History is read from IndexedDB separately
+const STORED_FIELDS: (keyof BackupData)[] = [
+  'noteStats', 'intervalStats', 'staffStats', 'guitars', 'activeGuitarId', 'gameConfig', 'accidentalPreference'
+];
+
+/**
+ * Snapshot of everything the app keeps in storage
+ */
+export const createBackup = async (storage: Storage = localStorage): Promise<BackupFile> => {
+  const data = {} as Record<keyof BackupData, unknown>;
+  STORED_FIELDS.forEach(field => { data[field] = loadStored(field, storage); });
+  data.history = await loadHistory();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: data as BackupData
+  };
+};
+
+/**
+ * Writes a backup's data to storage, replacing what is there, then migrates it if it is older than this version.
+ * Guitars and settings the backup does not have are left as they are
+ */
+export const writeBackup = async (data: BackupData, schemaVersion: number, storage: Storage = localStorage): Promise<void> => {
+  await replaceHistory(migrateRecords(data.history, schemaVersion) as ScoreRecord[]);
+  saveStored('noteStats', data.noteStats, storage);
+  saveStored('intervalStats', data.intervalStats, storage);
+  saveStored('staffStats', data.staffStats, storage);
+  if (data.guitars.length > 0) saveStored('guitars', data.guitars, storage);
+  if (data.activeGuitarId) saveStored('activeGuitarId', data.activeGuitarId, storage);
+  if (data.gameConfig) saveStored('gameConfig', data.gameConfig, storage);
+  if (data.accidentalPreference) saveStored('accidentalPreference', data.accidentalPreference, storage);
+  runMigrations(storage, schemaVersion);
+};
+
+// --- Validation ---
+
+const validateStats = (value: unknown, path: string, errors: string[]): value is NoteStatsMap => {
+  if (!isObject(value)) {
+    errors.push(`${path} is not an object`);
+    return false;
+  }
+  const found = errors.length;
+  Object.entries(value).forEach(([key, stat]) => validateNoteStat(stat, `${path}["${key}"]`, errors));
+  return errors.length === found;
+};
+
+const validateGuitars = (value: unknown, path: string, errors: string[]): value is GuitarProfile[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return false;
+  }
+  const found = errors.length;
+  value.forEach((guitar, i) => validateGuitar(guitar, `${path}[${i}]`, errors));
+  return errors.length === found;
+};
+
+/**
+ * Reads an exported JSON backup, checking the shape of everything in it
+ * @returns The backup, or null with the problems found (at most a screenful)
+ */
+export const parseBackup = (text: string): { backup: BackupFile | null; errors: string[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['The file is not valid JSON'] };
+  }
+
+  if (!isObject(value) || value.format !== BACKUP_FORMAT || !isObject(value.data)) {
+    return { backup: null, errors: ['The file is not a Fretude backup'] };
+  }
+  const schemaVersion = isFiniteNumber(value.schemaVersion) ? value.schemaVersion : 0;
+  if (!isFiniteNumber(value.version) || value.version > BACKUP_VERSION || schemaVersion > STORAGE_SCHEMA_VERSION) {
+    return { backup: null, errors: ['The backup was made by a newer version of Fretude'] };
+  }
+
+  const data = value.data;
+  const errors: string[] = [];
+  if (!Array.isArray(data.history)) {
+    errors.push('history must be a list');
+  } else {
+    data.history.forEach((record, i) => validateScoreRecord(record, `history[${i}]`, errors));
+  }
+  validateStats(data.noteStats, 'noteStats', errors);
+  // Older backups may predate these stores
+  if (data.intervalStats !== undefined) validateStats(data.intervalStats, 'intervalStats', errors);
+  if (data.staffStats !== undefined) validateStats(data.staffStats, 'staffStats', errors);
+  validateGuitars(data.guitars, 'guitars', errors);
+  if (data.gameConfig !== null && data.gameConfig !== undefined && !isObject(data.gameConfig)) errors.push('gameConfig must be an object');
+
+  if (errors.length > 0) return { backup: null, errors: errors.slice(0, 10) };
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: value.version,
+      schemaVersion,
+      exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+      data: {
+        history: data.history as ScoreRecord[],
+        noteStats: data.noteStats as NoteStatsMap,
+        intervalStats: (data.intervalStats as NoteStatsMap) || {},
+        staffStats: (data.staffStats as NoteStatsMap) || {},
+        guitars: data.guitars as GuitarProfile[],
+        activeGuitarId: typeof data.activeGuitarId === 'string' ? data.activeGuitarId : null,
+        gameConfig: (data.gameConfig as Partial<GameConfig>) || null,
+        accidentalPreference: data.accidentalPreference === 'FLAT' || data.accidentalPreference === 'SHARP' ? data.accidentalPreference : null
+      }
+    },
+    errors: []
+  };
+};
+
+// --- Merging ---
+
+// Per entry, the side that was practised more recently wins
+const mergeStats = (current: NoteStatsMap, incoming: NoteStatsMap): NoteStatsMap => {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([key, stat]) => {
+    if (!merged[key] || stat.lastSeen > merged[key].lastSeen) merged[key] = stat;
+  });
+  return merged;
+};
+
+/**
+ * Combines a backup with the current data: sessions from both (a session already present is kept once),
+ * the more recent of each stat entry, and every guitar. Settings stay as they are
+ */
+export const mergeBackup = (current: BackupData, incoming: BackupData): BackupData => {
+  const knownSessions = new Set(current.history.map(record => record.date));
+  const history = [...current.history, ...incoming.history.filter(record => !knownSessions.has(record.date))]
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+
+  const knownGuitars = new Set(current.guitars.map(guitar => guitar.id));
+
+  return {
+    history,
+    noteStats: mergeStats(current.noteStats, incoming.noteStats),
+    intervalStats: mergeStats(current.intervalStats, incoming.intervalStats),
+    staffStats: mergeStats(current.staffStats, incoming.staffStats),
+    guitars: [...current.guitars, ...incoming.guitars.filter(guitar => !knownGuitars.has(guitar.id))],
+    activeGuitarId: current.activeGuitarId ?? incoming.activeGuitarId,
+    gameConfig: current.gameConfig ?? incoming.gameConfig,
+    accidentalPreference: current.accidentalPreference ?? incoming.accidentalPreference
+  };
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  'sessionDate', 'gameMode', 'difficulty', 'tuningName', 'timestamp', 'stringIndex', 'fretIndex', 'noteName',
+  'pitch', 'interval', 'degree', 'chord', 'keySignature', 'answer', 'isCorrect', 'isTimeout', 'timeTakenMs', 'timingOffsetMs'
+];
+
+const toCsvField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Every interaction of every session as one CSV row, for spreadsheets
+ */
+export const interactionsToCsv = (history: ScoreRecord[]): string => {
+  const rows = history.flatMap(record =>
+    (record.interactions || []).map((interaction: NoteInteraction) => [
+      record.date,
+      record.gameMode || GameMode.FRETBOARD_TO_NOTE,
+      record.difficulty,
+      record.tuningName || '',
+      new Date(interaction.timestamp).toISOString(),
+      interaction.note?.stringIndex,
+      interaction.note?.fretIndex,
+      interaction.note?.noteName,
+      interaction.pitch,
+      interaction.interval,
+      interaction.degree,
+      interaction.chord ? `${interaction.chord.root} ${interaction.chord.quality}` : undefined,
+      interaction.keySignature,
+      interaction.answer,
+      interaction.isCorrect,
+      interaction.isTimeout,
+      interaction.timeTakenMs,
+      interaction.timingOffsetMs
+    ].map(toCsvField).join(','))
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * Saves text as a file through the browser's download
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
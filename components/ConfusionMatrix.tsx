@@ -0,0 +1,66 @@
+import React from 'react';
+
+interface ConfusionMatrixProps {
+  counts: number[][]; // counts[asked][answered]
+  labels: string[];   // One per row/column, in the same order
+}
+
+// Note asked (rows) against note answered (columns); shading is the share of each row
+const ConfusionMatrix: React.FC<ConfusionMatrixProps> = ({ counts, labels }) => {
+  const rowTotals = counts.map(row => row.reduce((sum, n) => sum + n, 0));
+
+  if (rowTotals.every(total => total === 0)) {
+    return (
+      <div className="h-64 flex items-center justify-center text-gray-500 border-2 border-dashed border-gray-700 rounded-lg">
+        No named notes in this window yet. Play Fretboard Training or Ear to Note!
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full w-full bg-gray-900/50 rounded-xl p-4 border border-gray-700 shadow-xl overflow-auto custom-scrollbar">
+      <table className="mx-auto border-separate border-spacing-0.5 text-xs font-mono">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-[10px] text-gray-500 uppercase tracking-wider text-left">Asked \ Answered</th>
+            {labels.map(label => (
+              <th key={label} className="w-9 py-1 text-gray-300 font-bold">{label}</th>
+            ))}
+            <th className="px-2 py-1 text-gray-500">Acc.</th>
+          </tr>
+        </thead>
+        <tbody>
+          {counts.map((row, asked) => (
+            <tr key={labels[asked]}>
+              <th className="px-2 py-1 text-gray-300 font-bold text-right">{labels[asked]}</th>
+              {row.map((count, answered) => {
+                const share = rowTotals[asked] > 0 ? count / rowTotals[asked] : 0;
+                const isDiagonal = asked === answered;
+                const background = count === 0
+                  ? 'rgba(50,50,50,0.4)'
+                  : isDiagonal
+                    ? `hsla(120, 50%, ${15 + share * 25}%, 0.95)`
+                    : `hsla(0, 60%, ${20 + share * 30}%, 0.95)`;
+                return (
+                  <td
+                    key={answered}
+                    title={`${labels[asked]} answered as ${labels[answered]}: ${count}`}
+                    className="w-9 h-8 text-center rounded"
+                    style={{ backgroundColor: background, color: count === 0 ? '#4b5563' : 'white' }}
+                  >
+                    {count || ''}
+                  </td>
+                );
+              })}
+              <td className="px-2 text-right text-gray-400">
+                {rowTotals[asked] > 0 ? `${Math.round((row[asked] / rowTotals[asked]) * 100)}%` : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ConfusionMatrix;
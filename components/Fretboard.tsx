@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { Note, PowerupState, PowerupType, ScaleType, AccidentalStyle } from '../types';
+import { Note, PowerupState, PowerupType, ScaleType, AccidentalStyle, MarkedPosition } from '../types';
 import { getNoteAtPosition, getNoteColor, getNoteHue, NOTES_SHARP, getDisplayNoteName, STANDARD_TUNING_OFFSETS, fretboardToStaffNote } from '../constants';
 
 interface FretboardProps {
@@ -36,8 +36,22 @@ interface FretboardProps {
   
   // Stats Mode
   heatmapData?: Record<string, { color: string; label: string; textColor?: string }>; // Key: "stringIdx-fretIdx"
+
+  // Tap-to-answer Mode
+  onPositionSelect?: (stringIdx: number, fretIdx: number) => void;
+  markedPositions?: MarkedPosition[];
+
+  // Second highlighted position shown alongside activeNote (e.g. an interval root), with a short label
+  referenceNote?: Note | null;
+  referenceLabel?: string;
 }
 
+const MARKED_POSITION_STYLES: Record<MarkedPosition['status'], string> = {
+  found: 'bg-green-500 border-2 border-white shadow-[0_0_12px_rgba(34,197,94,0.8)]',
+  wrong: 'bg-red-500 border-2 border-white shadow-[0_0_12px_rgba(239,68,68,0.8)]',
+  missed: 'bg-amber-500/80 border-2 border-dashed border-white'
+};
+
 const Fretboard: React.FC<FretboardProps> = ({ 
   activeNote, 
   maxFret, 
@@ -61,30 +75,38 @@ const Fretboard: React.FC<FretboardProps> = ({
   orientation = 'horizontal',
   tuningOffsets = STANDARD_TUNING_OFFSETS,
   accidentalPreference = 'SHARP',
-  heatmapData
+  heatmapData,
+  onPositionSelect,
+  markedPositions,
+  referenceNote,
+  referenceLabel = 'R'
 }) => {
   const isVertical = orientation === 'vertical';
   const [showAdvancedScales, setShowAdvancedScales] = useState(false);
 
-  // Strings:
-  // Horizontal: Top (5/HighE) -> Bottom (0/LowE)
-  // Vertical: Left (0/LowE) -> Right (5/HighE)
-  const strings = isVertical ? [0, 1, 2, 3, 4, 5] : [5, 4, 3, 2, 1, 0];
+  // Strings (0 = bass side of the neck):
+  // Horizontal: Top (highest index) -> Bottom (0)
+  // Vertical: Left (0) -> Right (highest index)
+  const stringIndices = tuningOffsets.map((_, i) => i);
+  const strings = isVertical ? stringIndices : [...stringIndices].reverse();
 
   // Markers for standard guitar (3, 5, 7, 9, 12)
   const isMarker = (fret: number) => [3, 5, 7, 9, 12].includes(fret);
 
   const getStringStyle = (stringIndex: number) => {
-    // 0(Low E) to 5(High E)
-    const isWound = stringIndex <= 2;
+    // Gauge follows pitch rather than position, so bass strings are heavy and a re-entrant high string is thin.
+    // The bands start a whole step below each standard string so down-tuned strings keep their gauge
+    const offset = tuningOffsets[stringIndex];
+    const isWound = offset < 13; // D3 tuned down to C3 is wound, G3 tuned down to F3 is not
     
-    // Thickness logic
+    // Thickness logic: 6px at E2 down to 1.5px at E4, heavier below E2 for bass
     let thickness = 1.5;
-    if (stringIndex === 0) thickness = 6;
-    else if (stringIndex === 1) thickness = 5;
-    else if (stringIndex === 2) thickness = 4;
-    else if (stringIndex === 3) thickness = 2.5;
-    else if (stringIndex === 4) thickness = 2;
+    if (offset < 0) thickness = Math.min(9, 6 - offset / 6);
+    else if (offset < 3) thickness = 6;
+    else if (offset < 8) thickness = 5;
+    else if (offset < 13) thickness = 4;
+    else if (offset < 17) thickness = 2.5;
+    else if (offset < 22) thickness = 2;
     
     // Dim strings if in heatmap mode for better visibility
     const opacityClass = heatmapData ? 'opacity-30' : (isWound ? '' : 'opacity-80');
@@ -135,6 +157,15 @@ const Fretboard: React.FC<FretboardProps> = ({
 
   // --- RENDER HELPERS ---
 
+  // Note cells become tap targets when the game asks for fretboard positions
+  const getCellTapProps = (stringIdx: number, fretIdx: number) => {
+    if (!onPositionSelect) return { className: '' };
+    return {
+      onClick: () => onPositionSelect(stringIdx, fretIdx),
+      className: 'cursor-pointer hover:bg-white/10 rounded-full transition-colors'
+    };
+  };
+
   const renderNoteContent = (stringIdx: number, fretIdx: number) => {
     const offset = tuningOffsets[stringIdx];
     const rawNote = getNoteAtPosition(offset, fretIdx);
@@ -181,8 +212,10 @@ const Fretboard: React.FC<FretboardProps> = ({
     // 2. Standard Game/Study Mode
     const revealedNote = getDisplayedNote(stringIdx, fretIdx);
     const isActive = activeNote?.fretIndex === fretIdx && activeNote?.stringIndex === stringIdx;
+    const isReference = !isActive && referenceNote?.fretIndex === fretIdx && referenceNote?.stringIndex === stringIdx;
     const staffNote = fretboardToStaffNote(offset, fretIdx);
     const hoverLabel = `${displayNote}${staffNote.octave}`;
+    const marked = markedPositions?.find(p => p.stringIndex === stringIdx && p.fretIndex === fretIdx);
     
     // Determine if the active note's name should be visible
     // Only show if: Study Mode OR explicitly revealed by specific powerup OR if it's revealed by logic (e.g. naturally revealed?)
@@ -205,7 +238,22 @@ const Fretboard: React.FC<FretboardProps> = ({
           </div>
         )}
         
-        {revealedNote && !isActive && (
+        {isReference && (
+          <div className={`${dotSize} rounded-full bg-white border-2 border-blue-500 shadow-[0_0_12px_rgba(255,255,255,0.6)] z-30 flex items-center justify-center pointer-events-auto`} title={hoverLabel}>
+            <span className={`${fontSize} font-black text-blue-600`}>{referenceLabel}</span>
+          </div>
+        )}
+
+        {marked && !isActive && !isReference && (
+          <div
+            className={`${dotSize} rounded-full flex items-center justify-center ${fontSize} font-bold text-white z-30 pointer-events-auto ${MARKED_POSITION_STYLES[marked.status]}`}
+            title={hoverLabel}
+          >
+            {displayNote}
+          </div>
+        )}
+
+        {revealedNote && !isActive && !isReference && !marked && (
           <div
             className={`
               ${dotSize} rounded-full flex items-center justify-center ${fontSize} font-bold text-black shadow-md border border-white/20 pointer-events-auto
@@ -390,7 +438,7 @@ const Fretboard: React.FC<FretboardProps> = ({
                             <button 
                             onClick={() => onStringToggle && onStringToggle(stringIdx)}
                             className={`w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold border hover:scale-110 transition-transform ${isSelected ? 'bg-blue-600 text-white border-blue-400' : 'bg-gray-800 text-gray-500 border-gray-600'}`}>
-                            {6 - stringIdx}
+                            {tuningOffsets.length - stringIdx}
                             </button>
                         </div>
                         );
@@ -406,11 +454,14 @@ const Fretboard: React.FC<FretboardProps> = ({
                     relative flex-shrink-0 border-gray-400 bg-[#281b18] flex justify-between
                     ${isVertical ? 'h-16 border-b-4 flex-row px-4 items-center' : 'w-16 border-r-4 flex-col py-4 items-center'}
                 `}>
-                    {strings.map((stringIdx) => (
-                    <div key={`nut-${stringIdx}`} className={`flex justify-center items-center relative ${isVertical ? 'w-full h-full' : 'h-full w-full'}`}>
+                    {strings.map((stringIdx) => {
+                    const tapProps = getCellTapProps(stringIdx, 0);
+                    return (
+                    <div key={`nut-${stringIdx}`} onClick={tapProps.onClick} className={`flex justify-center items-center relative ${isVertical ? 'w-full h-full' : 'h-full w-full'} ${tapProps.className}`}>
                         {renderNoteContent(stringIdx, 0)}
                     </div>
-                    ))}
+                    );
+                    })}
                     <div className={`absolute text-[10px] text-gray-500 font-bold uppercase tracking-widest ${isVertical ? 'right-2 rotate-90 top-1/2 -translate-y-1/2' : 'bottom-0 w-full text-center mb-1'}`}>Nut</div>
                 </div>
 
@@ -446,11 +497,14 @@ const Fretboard: React.FC<FretboardProps> = ({
                         {renderMarker(fretNum)}
 
                         {/* Note Cells */}
-                        {strings.map((stringIdx) => (
-                            <div key={`fret-${fretNum}-str-${stringIdx}`} className="flex-1 flex justify-center items-center z-20 relative w-full h-full">
+                        {strings.map((stringIdx) => {
+                            const tapProps = getCellTapProps(stringIdx, fretNum);
+                            return (
+                            <div key={`fret-${fretNum}-str-${stringIdx}`} onClick={tapProps.onClick} className={`flex-1 flex justify-center items-center z-20 relative w-full h-full ${tapProps.className}`}>
                                 {renderNoteContent(stringIdx, fretNum)}
                             </div>
-                        ))}
+                            );
+                        })}
                         </div>
                     );
                     })}
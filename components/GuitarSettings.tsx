@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { GuitarProfile, TuningPreset, AccidentalStyle } from '../types';
-import { TUNING_PRESETS, getOffsetNoteName, STANDARD_TUNING_OFFSETS } from '../constants';
+import { GuitarProfile, AccidentalStyle } from '../types';
+import { TUNING_PRESETS, STANDARD_TUNING_OFFSETS, fretboardToStaffNote } from '../constants';
 
 interface GuitarSettingsProps {
   profiles: GuitarProfile[];
@@ -16,6 +16,17 @@ interface GuitarSettingsProps {
   onClose: () => void;
 }
 
+const MIN_PITCH_OFFSET = -17; // B0
+const MAX_PITCH_OFFSET = 36;  // E5
+const MIN_STRINGS = 1;
+const MAX_STRINGS = 12;
+
+// Groups presets by instrument, in the order they are listed
+const PRESET_GROUPS = TUNING_PRESETS.reduce<Record<string, typeof TUNING_PRESETS>>((groups, preset) => {
+  (groups[preset.instrument] = groups[preset.instrument] || []).push(preset);
+  return groups;
+}, {});
+
 const GuitarSettings: React.FC<GuitarSettingsProps> = ({
   profiles,
   activeProfileId,
@@ -87,17 +98,21 @@ const GuitarSettings: React.FC<GuitarSettingsProps> = ({
     });
   };
 
-  // Helper to generate selectable pitch options for "Custom" tuning
+  // Strings can be added or removed on a custom tuning; a new string goes a fourth above the highest one
+  const handleStringCountChange = (change: 1 | -1) => {
+    if (!editForm) return;
+    const tuning = change > 0
+      ? [...editForm.tuning, Math.min(MAX_PITCH_OFFSET, editForm.tuning[editForm.tuning.length - 1] + 5)]
+      : editForm.tuning.slice(0, -1);
+    setEditForm({ ...editForm, tuningName: 'Custom', tuning });
+  };
+
+  // Helper to generate selectable pitch options for "Custom" tuning, from B0 (5-string bass) to E5
   const generatePitchOptions = () => {
     const options = [];
-    for (let i = -8; i <= 24; i++) {
-      const noteName = getOffsetNoteName(i);
-      let displayOctave = 2;
-      if (i >= 20) displayOctave = 4;
-      else if (i >= 8) displayOctave = 3;
-      else if (i < -4) displayOctave = 1;
-
-      options.push({ value: i, label: `${noteName}${displayOctave}` });
+    for (let i = MIN_PITCH_OFFSET; i <= MAX_PITCH_OFFSET; i++) {
+      const note = fretboardToStaffNote(i, 0);
+      options.push({ value: i, label: `${note.noteName}${note.octave}` });
     }
     return options;
   };
@@ -183,7 +198,7 @@ const GuitarSettings: React.FC<GuitarSettingsProps> = ({
                   <div className="flex gap-1">
                     {profile.tuning.map((offset, idx) => (
                       <div key={idx} className="flex-1 h-1 rounded-full bg-gray-600 overflow-hidden relative">
-                         <div className="absolute inset-0 bg-gray-500" style={{ top: `${(24-offset)/24 * 100}%` }}></div>
+                         <div className="absolute inset-0 bg-gray-500" style={{ top: `${(MAX_PITCH_OFFSET - offset) / (MAX_PITCH_OFFSET - MIN_PITCH_OFFSET) * 100}%` }}></div>
                       </div>
                     ))}
                   </div>
@@ -236,19 +251,43 @@ const GuitarSettings: React.FC<GuitarSettingsProps> = ({
                     onChange={(e) => handleTuningPresetChange(e.target.value)}
                     className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white focus:border-blue-500 outline-none"
                   >
-                    {TUNING_PRESETS.map(p => (
-                      <option key={p.name} value={p.name}>{p.name}</option>
+                    {Object.entries(PRESET_GROUPS).map(([instrument, presets]) => (
+                      <optgroup key={instrument} label={instrument}>
+                        {presets.map(p => (
+                          <option key={p.name} value={p.name}>{p.name}</option>
+                        ))}
+                      </optgroup>
                     ))}
                     <option value="Custom">Custom</option>
                   </select>
                 </div>
 
                 <div>
-                  <label className="block text-xs font-bold text-gray-500 uppercase mb-2">String Tuning (Low to High)</label>
-                  <div className="grid grid-cols-6 gap-2">
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-xs font-bold text-gray-500 uppercase">String Tuning ({editForm.tuning.length} Strings, Bass Side First)</label>
+                    {editForm.tuningName === 'Custom' && (
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => handleStringCountChange(-1)}
+                          disabled={editForm.tuning.length <= MIN_STRINGS}
+                          className="px-2 py-0.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 border border-gray-600 rounded text-xs font-bold text-white"
+                        >
+                          − String
+                        </button>
+                        <button
+                          onClick={() => handleStringCountChange(1)}
+                          disabled={editForm.tuning.length >= MAX_STRINGS}
+                          className="px-2 py-0.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 border border-gray-600 rounded text-xs font-bold text-white"
+                        >
+                          + String
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${editForm.tuning.length}, minmax(0, 1fr))` }}>
                     {editForm.tuning.map((offset, idx) => (
                       <div key={idx} className="flex flex-col gap-1">
-                        <span className="text-[10px] text-center text-gray-500 font-mono">Str {idx + 1}</span>
+                        <span className="text-[10px] text-center text-gray-500 font-mono">Str {editForm.tuning.length - idx}</span>
                         <select
                           value={offset}
                           onChange={(e) => handleStringTuneChange(idx, e.target.value)}
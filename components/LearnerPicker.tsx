@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+
+interface LearnerPickerProps {
+  learners: LearnerProfile[];
+  activeLearnerId: string;
+  onSelect: (learnerId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (learnerId: string, name: string) => void;
+  onDelete: (learnerId: string) => void;
+  lockedReason?: string | null; // While set, learners cannot be switched, added or deleted, and this says why
+}
+
+// Who is practising: each learner has their own history, stats, guitars and settings
+const LearnerPicker: React.FC<LearnerPickerProps> = ({ learners, activeLearnerId, onSelect, onCreate, onRename, onDelete, lockedReason }) => {
+  // null: not editing, '': naming a new learner, otherwise the id being renamed
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const activeLearner = learners.find(l => l.id === activeLearnerId) || learners[0];
+  const isLocked = !!lockedReason;
+
+  const startEdit = (learnerId: string, currentName: string) => {
+    setEditingId(learnerId);
+    setName(currentName);
+    setConfirmingDelete(false);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (editingId === '') onCreate(trimmed);
+    else if (editingId) onRename(editingId, trimmed);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-gray-800/50 rounded-xl border border-gray-700 p-3 flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider mr-1">Learner</span>
+        {learners.map(learner => (
+          <button
+            key={learner.id}
+            onClick={() => { onSelect(learner.id); setEditingId(null); setConfirmingDelete(false); }}
+            disabled={isLocked && learner.id !== activeLearner.id}
+            className={`disabled:opacity-50 px-3 py-1.5 rounded-lg text-sm font-bold border transition-colors ${learner.id === activeLearner.id ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+          >
+            {learner.name}
+          </button>
+        ))}
+        <button
+          onClick={() => startEdit('', '')}
+          disabled={isLocked}
+          className="disabled:opacity-50 px-3 py-1.5 rounded-lg text-sm font-bold border border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 transition-colors"
+        >
+          + New
+        </button>
+        <div className="flex gap-1 ml-auto">
+          <button onClick={() => startEdit(activeLearner.id, activeLearner.name)} className="px-2 py-1 text-xs text-gray-400 hover:text-white">Rename</button>
+          {learners.length > 1 && (
+            <button onClick={() => { setConfirmingDelete(true); setEditingId(null); }} disabled={isLocked} className="disabled:opacity-50 px-2 py-1 text-xs text-gray-400 hover:text-red-400">Delete</button>
+          )}
+        </div>
+      </div>
+
+      {lockedReason && <div className="text-xs text-amber-400">{lockedReason}</div>}
+
+      {editingId !== null && (
+        <div className="flex gap-2 animate-fade-in">
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            placeholder="Learner name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') setEditingId(null); }}
+            className="flex-1 bg-gray-800 border border-gray-600 rounded px-3 py-1.5 text-sm text-white focus:border-blue-500 outline-none"
+          />
+          <button onClick={handleSave} disabled={!name.trim() || (editingId === '' && isLocked)} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded text-sm font-bold">
+            {editingId === '' ? 'Add' : 'Save'}
+          </button>
+          <button onClick={() => setEditingId(null)} className="px-3 py-1.5 text-sm text-gray-400 hover:text-white">Cancel</button>
+        </div>
+      )}
+
+      {confirmingDelete && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-red-300 animate-fade-in">
+          <span>Delete {activeLearner.name} and all of their history and stats?</span>
+          <button onClick={() => { onDelete(activeLearner.id); setConfirmingDelete(false); }} disabled={isLocked} className="px-3 py-1 bg-red-600 hover:bg-red-500 disabled:opacity-50 text-white rounded font-bold">Delete</button>
+          <button onClick={() => setConfirmingDelete(false)} className="px-3 py-1 text-gray-400 hover:text-white">Cancel</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearnerPicker;
@@ -1,6 +1,7 @@
-import React, { useRef, useEffect, useCallback, useMemo } from 'react';
-import { Renderer, Stave, StaveNote, Voice, Formatter, Accidental } from 'vexflow';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import { Renderer, Stave, StaveNote, Voice, Formatter, Accidental, BarNote, StaveTie } from 'vexflow';
 import { AccidentalStyle } from '../types';
+import { MAX_LEDGER_LINES, staffStepToNote, DURATION_SIXTEENTHS, getMeasureSixteenths, getKeySignatureAccidentals } from '../constants';
 
 export type Clef = 'treble' | 'bass';
 export type NoteDuration = 'w' | 'h' | 'q' | '8' | '16' | 'wd' | 'hd' | 'qd' | '8d'; // whole, half, quarter, eighth, sixteenth + dotted variants
@@ -9,6 +10,7 @@ export interface StaffNote {
   noteName: string;  // e.g., 'C', 'F#', 'Bb'
   octave: number;    // e.g., 4 for middle C
   duration?: NoteDuration; // note duration, defaults to 'w' (whole)
+  tied?: boolean;    // tied from the previous note; shares that note's active/completed colouring
 }
 
 interface StaffProps {
@@ -21,8 +23,9 @@ interface StaffProps {
   width?: number;
   height?: number;
   showClef?: boolean;
-  showTimeSignature?: boolean;
+  showTimeSignature?: boolean; // Also draws bar lines between the measures of a passage
   timeSignature?: string;
+  keySignature?: string; // Major key whose signature is drawn after the clef, e.g. 'Bb'
   highlightColor?: string;
   noteColor?: string;
   accidentalPreference?: AccidentalStyle;
@@ -31,6 +34,17 @@ interface StaffProps {
   animated?: boolean;
   feedbackState?: 'correct' | 'incorrect' | 'neutral';
   octaveTransposition?: number; // Shift display octave (e.g., 1 for guitar's standard octave-up notation)
+
+  // Note entry: called with the natural note at the clicked line/space (octaveTransposition already undone)
+  onStaffPositionSelect?: (note: StaffNote) => void;
+  maxLedgerLines?: number; // How far above/below the staff a position can be picked
+}
+
+// Stave measurements captured at render time, used to hit-test clicks for note entry
+interface StaffGeometry {
+  topLineY: number;
+  spacing: number;
+  noteX: number;
 }
 
 // Map our duration codes to VexFlow duration strings
@@ -116,6 +130,7 @@ const Staff: React.FC<StaffProps> = ({
   showClef = true,
   showTimeSignature = false,
   timeSignature = '4/4',
+  keySignature,
   highlightColor,
   noteColor = '#3b82f6', // blue-500
   accidentalPreference = 'SHARP',
@@ -123,10 +138,14 @@ const Staff: React.FC<StaffProps> = ({
   className = '',
   animated = false,
   feedbackState = 'neutral',
-  octaveTransposition = 0
+  octaveTransposition = 0,
+  onStaffPositionSelect,
+  maxLedgerLines = MAX_LEDGER_LINES
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<InstanceType<typeof Renderer> | null>(null);
+  const geometryRef = useRef<StaffGeometry | null>(null);
+  const [hoverStep, setHoverStep] = useState<number | null>(null);
 
   // Calculate effective note color based on feedback state
   const effectiveNoteColor = useMemo(() => {
@@ -179,6 +198,10 @@ const Staff: React.FC<StaffProps> = ({
       stave.addClef(clef);
     }
 
+    if (keySignature) {
+      stave.addKeySignature(keySignature);
+    }
+
     if (showTimeSignature) {
       stave.addTimeSignature(timeSignature);
     }
@@ -189,11 +212,35 @@ const Staff: React.FC<StaffProps> = ({
     // Draw the stave
     stave.draw();
 
+    geometryRef.current = {
+      topLineY: stave.getYForLine(0),
+      spacing: stave.getSpacingBetweenLines(),
+      noteX: stave.getNoteStartX() + 20
+    };
+
     // If we have notes, render them
     if (notesToRender.length > 0) {
       const staveNotes: StaveNote[] = [];
+      const tickables: (StaveNote | BarNote)[] = [];
+      const measureLength = getMeasureSixteenths(timeSignature);
+      let position = 0;
+      const measureAccidentals = new Map<string, string>(); // written accidental per letter+octave in the current measure
+      const signatureAccidentals = keySignature ? getKeySignatureAccidentals(keySignature) : {};
+
+      // A tied note belongs to the note it continues, so colour it by the index of that note
+      const attackIndexes: number[] = [];
+      notesToRender.forEach((n, index) => {
+        attackIndexes.push(n.tied && index > 0 ? attackIndexes[index - 1] : index);
+      });
 
       notesToRender.forEach((n, index) => {
+        // Bar line before any note that starts a new measure; accidentals only last until it
+        if (showTimeSignature && position > 0 && position % measureLength === 0) {
+          tickables.push(new BarNote());
+          measureAccidentals.clear();
+        }
+        position += DURATION_SIXTEENTHS[n.duration || 'w'];
+
         const vexNote = toVexFlowNote(n, octaveTransposition);
         const duration = DURATION_MAP[n.duration || 'w'];
 
@@ -204,15 +251,19 @@ const Staff: React.FC<StaffProps> = ({
           clef: clef,
         });
 
-        // Add accidental if needed
-        const accidental = getVexFlowAccidental(n.noteName);
-        if (accidental) {
-          staveNote.addModifier(new Accidental(accidental));
+        // Add accidental if needed: not on tied notes, and not when the measure already has it
+        // (a natural after a sharp/flat in the same measure needs a natural sign)
+        const accidental = getVexFlowAccidental(n.noteName) || '';
+        const accidentalKey = vexNote.charAt(0) + vexNote.split('/')[1];
+        const currentAccidental = measureAccidentals.get(accidentalKey) ?? signatureAccidentals[vexNote.charAt(0).toUpperCase()] ?? '';
+        if (!n.tied && accidental !== currentAccidental) {
+          staveNote.addModifier(new Accidental(accidental || 'n'));
         }
+        measureAccidentals.set(accidentalKey, accidental);
 
         // Determine color based on whether this is the active note
-        const isActive = index === activeNoteIndex;
-        const isCompleted = index < activeNoteIndex;
+        const isActive = attackIndexes[index] === activeNoteIndex;
+        const isCompleted = attackIndexes[index] < activeNoteIndex;
 
         let color: string;
         if (isActive) {
@@ -240,17 +291,33 @@ const Staff: React.FC<StaffProps> = ({
         }
 
         staveNotes.push(staveNote);
+        tickables.push(staveNote);
       });
 
       // Create voice and add notes
-      const voice = new Voice({ num_beats: 4, beat_value: 4 });
+      const [numBeats, beatValue] = timeSignature.split('/').map(Number);
+      const voice = new Voice({ numBeats: numBeats || 4, beatValue: beatValue || 4 });
       voice.setStrict(false); // Allow any duration combination
-      voice.addTickables(staveNotes);
+      voice.addTickables(tickables);
 
       // Format and draw
-      const formattingWidth = staveWidth - (showClef ? 60 : 20) - (showTimeSignature ? 40 : 0);
+      const formattingWidth = staveWidth - (showClef ? 60 : 20) - (showTimeSignature ? 40 : 0) - Object.keys(signatureAccidentals).length * 10;
       new Formatter().joinVoices([voice]).format([voice], formattingWidth);
       voice.draw(context, stave);
+
+      notesToRender.forEach((n, index) => {
+        if (!n.tied || index === 0) return;
+        new StaveTie({
+          firstNote: staveNotes[index - 1],
+          lastNote: staveNotes[index],
+          firstIndexes: [0],
+          lastIndexes: [0]
+        }).setContext(context).draw();
+      });
+
+      // Line the entry cursor up with the rendered note
+      const activeStaveNote = staveNotes[activeNoteIndex] || staveNotes[0];
+      geometryRef.current.noteX = (activeStaveNote.getNoteHeadBeginX() + activeStaveNote.getNoteHeadEndX()) / 2;
     }
 
     // Style the SVG for dark theme
@@ -307,7 +374,7 @@ const Staff: React.FC<StaffProps> = ({
         });
       }
     }
-  }, [notesToRender, activeNoteIndex, clef, width, height, showClef, showTimeSignature, timeSignature, effectiveNoteColor, animated, octaveTransposition]);
+  }, [notesToRender, activeNoteIndex, clef, width, height, showClef, showTimeSignature, timeSignature, keySignature, effectiveNoteColor, animated, octaveTransposition]);
 
   useEffect(() => {
     renderStaff();
@@ -325,6 +392,76 @@ const Staff: React.FC<StaffProps> = ({
     }
   }, [feedbackState]);
 
+  /**
+   * Snaps a pointer position to the nearest line/space, in half-spaces down from the top line
+   */
+  const getStepFromEvent = (e: React.MouseEvent<HTMLDivElement>): number | null => {
+    const geometry = geometryRef.current;
+    if (!geometry) return null;
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const step = Math.round((y - geometry.topLineY) / (geometry.spacing / 2));
+    const limit = 2 * maxLedgerLines + 1;
+    return Math.max(-limit, Math.min(8 + limit, step));
+  };
+
+  const handleEntryMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    setHoverStep(getStepFromEvent(e));
+  };
+
+  const handleEntryClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const step = getStepFromEvent(e);
+    if (step === null || !onStaffPositionSelect) return;
+    const written = staffStepToNote(step, clef);
+    onStaffPositionSelect({ noteName: written.noteName, octave: written.octave - octaveTransposition });
+  };
+
+  // Ghost notehead (plus any ledger lines it needs) under the pointer while entering a note
+  const renderEntryCursor = () => {
+    const geometry = geometryRef.current;
+    if (hoverStep === null || !geometry) return null;
+
+    const halfSpace = geometry.spacing / 2;
+    const yForStep = (step: number) => geometry.topLineY + step * halfSpace;
+    const ledgerSteps: number[] = [];
+    for (let step = -2; step >= hoverStep; step -= 2) ledgerSteps.push(step);
+    for (let step = 10; step <= hoverStep; step += 2) ledgerSteps.push(step);
+
+    return (
+      <div className="absolute inset-0 pointer-events-none">
+        {ledgerSteps.map(step => (
+          <div
+            key={step}
+            className="absolute bg-sky-400/70"
+            style={{ left: geometry.noteX - geometry.spacing * 1.2, top: yForStep(step), width: geometry.spacing * 2.4, height: 1 }}
+          />
+        ))}
+        <div
+          className="absolute rounded-full bg-sky-400/40 border border-sky-300"
+          style={{
+            left: geometry.noteX - geometry.spacing * 0.7,
+            top: yForStep(hoverStep) - halfSpace,
+            width: geometry.spacing * 1.4,
+            height: geometry.spacing
+          }}
+        />
+      </div>
+    );
+  };
+
+  const staffElement = (
+    <div
+      ref={containerRef}
+      onClick={onClick}
+      className={`
+        staff-container rounded-lg transition-all duration-200
+        ${onClick || onStaffPositionSelect ? 'cursor-pointer hover:bg-gray-800/50' : ''}
+        ${feedbackBorderClass}
+        ${className}
+      `}
+      style={{ width, height }}
+    />
+  );
+
   return (
     <>
       {/* CSS for note-only animation */}
@@ -339,17 +476,18 @@ const Staff: React.FC<StaffProps> = ({
           transform-box: fill-box;
         }
       `}</style>
-      <div
-        ref={containerRef}
-        onClick={onClick}
-        className={`
-          staff-container rounded-lg transition-all duration-200
-          ${onClick ? 'cursor-pointer hover:bg-gray-800/50' : ''}
-          ${feedbackBorderClass}
-          ${className}
-        `}
-        style={{ width, height }}
-      />
+      {onStaffPositionSelect ? (
+        <div
+          className="relative"
+          style={{ width, height }}
+          onMouseMove={handleEntryMove}
+          onMouseLeave={() => setHoverStep(null)}
+          onClick={handleEntryClick}
+        >
+          {staffElement}
+          {renderEntryCursor()}
+        </div>
+      ) : staffElement}
     </>
   );
 };
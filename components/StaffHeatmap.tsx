@@ -0,0 +1,71 @@
+import React from 'react';
+import { HeatmapCell } from '../types';
+import { NOTES_SHARP } from '../constants';
+
+interface StaffHeatmapProps {
+  heatmapData: Record<string, HeatmapCell>; // Key: sounding pitch, sharp spelling (e.g. "C#4")
+  lowSemitone: number;  // Lowest key shown, in semitones from C0
+  highSemitone: number; // Highest key shown
+}
+
+const EMPTY_CELL: HeatmapCell = { color: 'rgba(50,50,50,0.5)', label: '-', textColor: 'gray' };
+
+const getPitchName = (semitone: number) => `${NOTES_SHARP[semitone % 12]}${Math.floor(semitone / 12)}`;
+const isBlackKey = (semitone: number) => NOTES_SHARP[semitone % 12].includes('#');
+
+// Sight-reading results on a keyboard laid out by sounding pitch
+const StaffHeatmap: React.FC<StaffHeatmapProps> = ({ heatmapData, lowSemitone, highSemitone }) => {
+  const semitones: number[] = [];
+  for (let s = lowSemitone; s <= highSemitone; s++) semitones.push(s);
+
+  const whiteKeys = semitones.filter(s => !isBlackKey(s));
+  const whiteWidth = 100 / whiteKeys.length;
+
+  return (
+    <div className="h-full w-full flex flex-col justify-center bg-gray-900/50 rounded-xl p-4 border border-gray-700 shadow-xl overflow-x-auto custom-scrollbar">
+      <div className="relative h-48 md:h-64 min-w-[720px]">
+        {/* White keys */}
+        <div className="absolute inset-0 flex">
+          {whiteKeys.map(semitone => {
+            const pitch = getPitchName(semitone);
+            const cell = heatmapData[pitch] || EMPTY_CELL;
+            return (
+              <div
+                key={semitone}
+                title={`${pitch}: ${cell.label}`}
+                className="h-full border border-gray-900 rounded-b-md flex flex-col items-center justify-end pb-2 gap-1"
+                style={{ width: `${whiteWidth}%`, backgroundColor: cell.color }}
+              >
+                <span className="text-[10px] font-bold" style={{ color: cell.textColor || 'white' }}>{cell.label}</span>
+                <span className={`text-[10px] font-mono ${NOTES_SHARP[semitone % 12] === 'C' ? 'text-white font-bold' : 'text-gray-400'}`}>{pitch}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Black keys, centred on the line between their white neighbours */}
+        {semitones.filter(isBlackKey).map(semitone => {
+          const pitch = getPitchName(semitone);
+          const cell = heatmapData[pitch];
+          const whiteBefore = whiteKeys.filter(s => s < semitone).length;
+          return (
+            <div
+              key={semitone}
+              title={`${pitch}: ${(cell || EMPTY_CELL).label}`}
+              className="absolute top-0 h-3/5 border-2 border-gray-900 rounded-b-md flex items-end justify-center pb-1 z-10"
+              style={{
+                left: `${(whiteBefore - 0.3) * whiteWidth}%`,
+                width: `${whiteWidth * 0.6}%`,
+                backgroundColor: cell ? cell.color : '#111827'
+              }}
+            >
+              <span className="text-[9px] font-bold" style={{ color: cell?.textColor || 'white' }}>{cell?.label ?? ''}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StaffHeatmap;
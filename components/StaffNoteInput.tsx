@@ -0,0 +1,102 @@
+import React from 'react';
+import Staff, { Clef, StaffNote } from './Staff';
+import { AccidentalStyle } from '../types';
+
+interface StaffNoteInputProps {
+  value: StaffNote | null;
+  onChange: (note: StaffNote | null) => void;
+  onSubmit: () => void;
+  clef: Clef;
+  octaveTransposition?: number;
+  accidentalPreference?: AccidentalStyle;
+  feedbackState?: 'correct' | 'incorrect' | 'neutral';
+  disabled?: boolean;
+  width?: number;
+  height?: number;
+}
+
+type AccidentalChoice = '' | '#' | 'b';
+
+const ACCIDENTAL_BUTTONS: { value: AccidentalChoice; symbol: string; label: string }[] = [
+  { value: 'b', symbol: '♭', label: 'Flat' },
+  { value: '', symbol: '♮', label: 'Natural' },
+  { value: '#', symbol: '♯', label: 'Sharp' }
+];
+
+/**
+ * Lets the player write a single note: click a line/space on the staff, pick an accidental, then submit
+ * The placed note is controlled by the parent so it can be cleared between rounds
+ */
+const StaffNoteInput: React.FC<StaffNoteInputProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  clef,
+  octaveTransposition = 0,
+  accidentalPreference,
+  feedbackState = 'neutral',
+  disabled = false,
+  width = 320,
+  height = 220
+}) => {
+  const accidental = (value ? value.noteName.slice(1) : '') as AccidentalChoice;
+
+  // Moving the note keeps whichever accidental is currently selected
+  const handlePositionSelect = (position: StaffNote) => {
+    if (disabled) return;
+    onChange({ noteName: position.noteName + accidental, octave: position.octave });
+  };
+
+  const handleAccidentalSelect = (choice: AccidentalChoice) => {
+    if (disabled || !value) return;
+    onChange({ ...value, noteName: value.noteName.charAt(0) + choice });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="bg-gray-900/50 rounded-xl p-2 border border-gray-700">
+        <Staff
+          note={value}
+          clef={clef}
+          width={width}
+          height={height}
+          accidentalPreference={accidentalPreference}
+          feedbackState={feedbackState}
+          octaveTransposition={octaveTransposition}
+          onStaffPositionSelect={disabled ? undefined : handlePositionSelect}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        {ACCIDENTAL_BUTTONS.map(button => (
+          <button
+            key={button.label}
+            onClick={() => handleAccidentalSelect(button.value)}
+            disabled={disabled || !value}
+            title={button.label}
+            className={`w-12 h-12 rounded-lg text-2xl font-serif border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+              value && accidental === button.value
+                ? 'bg-blue-600 border-blue-400 text-white'
+                : 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {button.symbol}
+          </button>
+        ))}
+        <button
+          onClick={onSubmit}
+          disabled={disabled || !value}
+          className="ml-2 px-6 h-12 rounded-lg bg-green-600 hover:bg-green-500 text-white font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Submit
+        </button>
+      </div>
+
+      {!value && !disabled && (
+        <p className="text-xs text-gray-500">Click a line or space to place the note</p>
+      )}
+    </div>
+  );
+};
+
+export default StaffNoteInput;
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GuitarProfile } from '../types';
+import { fretboardToStaffNote } from '../constants';
+import { findNearestString, startMicrophoneFrequencyListener } from '../pitchDetection';
+
+interface TunerProps {
+  profile: GuitarProfile;
+  onBack: () => void;
+}
+
+const IN_TUNE_CENTS = 5;
+const METER_RANGE_CENTS = 50;
+const SILENCE_HOLD_MS = 1500; // Keep showing the last reading this long after the string stops
+
+const Tuner: React.FC<TunerProps> = ({ profile, onBack }) => {
+  const [frequency, setFrequency] = useState<number | null>(null);
+  const [lockedString, setLockedString] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastHeardAtRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let stopListening: (() => void) | null = null;
+
+    startMicrophoneFrequencyListener(detected => {
+      if (detected !== null) {
+        lastHeardAtRef.current = Date.now();
+        setFrequency(detected);
+      } else if (Date.now() - lastHeardAtRef.current > SILENCE_HOLD_MS) {
+        setFrequency(null);
+      }
+    })
+      .then(stop => {
+        if (cancelled) stop();
+        else stopListening = stop;
+      })
+      .catch(e => {
+        console.error("Failed to start tuner", e);
+        setError('Microphone unavailable. Allow microphone access to use the tuner');
+      });
+
+    return () => {
+      cancelled = true;
+      stopListening?.();
+    };
+  }, []);
+
+  const reading = frequency !== null ? findNearestString(frequency, profile.tuning, lockedString ?? undefined) : null;
+  const cents = reading ? Math.round(reading.cents) : 0;
+  const isInTune = reading !== null && Math.abs(cents) <= IN_TUNE_CENTS;
+  const needlePercent = 50 + (Math.max(-METER_RANGE_CENTS, Math.min(METER_RANGE_CENTS, cents)) / METER_RANGE_CENTS) * 50;
+
+  const getStringLabel = (offset: number) => {
+    const note = fretboardToStaffNote(offset, 0);
+    return `${note.noteName}${note.octave}`;
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar">
+      <div className="max-w-2xl mx-auto p-4 md:p-6 flex flex-col items-center gap-6 mt-4 animate-fade-in">
+        <div className="w-full flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-extrabold text-white">Tuner</h2>
+            <p className="text-xs text-gray-400">{profile.name} • {profile.tuningName}</p>
+          </div>
+          <button onClick={onBack} className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white border border-gray-600 rounded-lg text-sm font-bold shadow transition-colors">
+            Exit Tuner
+          </button>
+        </div>
+
+        {error ? (
+          <div className="w-full p-4 rounded-xl bg-red-900/30 border border-red-700/50 text-red-300 text-sm text-center">{error}</div>
+        ) : (
+          <div className="w-full bg-gray-800/50 rounded-2xl border border-gray-700 p-6 shadow-xl flex flex-col items-center gap-4">
+            {/* Target string and deviation */}
+            <div className="text-center">
+              <div className={`text-6xl font-extrabold transition-colors ${reading === null ? 'text-gray-600' : isInTune ? 'text-green-400' : 'text-white'}`}>
+                {reading !== null ? getStringLabel(profile.tuning[reading.stringIndex]) : '—'}
+              </div>
+              <div className="text-sm text-gray-400 font-mono mt-1 h-5">
+                {reading !== null ? `${frequency!.toFixed(1)} Hz • target ${reading.targetFrequency.toFixed(1)} Hz` : 'Play a string'}
+              </div>
+            </div>
+
+            {/* Cents meter */}
+            <div className="w-full">
+              <div className="relative w-full h-10">
+                <div className="absolute top-1/2 -translate-y-1/2 w-full h-1 bg-gray-700 rounded"></div>
+                <div className="absolute top-1/2 -translate-y-1/2 h-3 bg-green-600/40 rounded" style={{ left: `${50 - (IN_TUNE_CENTS / METER_RANGE_CENTS) * 50}%`, width: `${(IN_TUNE_CENTS / METER_RANGE_CENTS) * 100}%` }}></div>
+                <div className="absolute top-0 bottom-0 left-1/2 w-px bg-gray-500"></div>
+                {reading !== null && (
+                  <div
+                    className={`absolute top-0 bottom-0 w-1 -ml-0.5 rounded transition-all duration-100 ${isInTune ? 'bg-green-400' : 'bg-amber-400'}`}
+                    style={{ left: `${needlePercent}%` }}
+                  ></div>
+                )}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500 font-mono">
+                <span>-{METER_RANGE_CENTS}¢</span>
+                <span>0</span>
+                <span>+{METER_RANGE_CENTS}¢</span>
+              </div>
+            </div>
+
+            <div className={`text-lg font-bold h-7 ${isInTune ? 'text-green-400' : 'text-amber-400'}`}>
+              {reading !== null && (isInTune ? 'In tune' : `${cents > 0 ? '+' : ''}${cents}¢ • tune ${cents > 0 ? 'down' : 'up'}`)}
+            </div>
+          </div>
+        )}
+
+        {/* Strings: follow the nearest one, or tap to tune a specific string */}
+        <div className="w-full">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Strings</span>
+            <button
+              onClick={() => setLockedString(null)}
+              className={`px-3 py-1 text-xs font-bold rounded transition-colors ${lockedString === null ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white border border-gray-700'}`}
+            >
+              Auto
+            </button>
+          </div>
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${profile.tuning.length}, minmax(0, 1fr))` }}>
+            {profile.tuning.map((offset, stringIndex) => {
+              const isTarget = reading?.stringIndex === stringIndex;
+              const isLocked = lockedString === stringIndex;
+              return (
+                <button
+                  key={stringIndex}
+                  onClick={() => setLockedString(isLocked ? null : stringIndex)}
+                  className={`py-3 rounded-lg font-bold border transition-colors ${
+                    isTarget && isInTune ? 'bg-green-600 border-green-400 text-white'
+                    : isTarget ? 'bg-amber-600 border-amber-400 text-white'
+                    : isLocked ? 'bg-gray-700 border-blue-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {getStringLabel(offset)}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Tap a string to tune it on its own, useful when it is far from its target.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Tuner;
@@ -1,5 +1,5 @@
 
-import { TuningPreset, AccidentalStyle } from "./types";
+import { TuningPreset, AccidentalStyle, ScaleType, ChordQuality, NoteDurationType } from "./types";
 
 export const NOTES_SHARP = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 export const NOTES_FLAT = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
@@ -10,15 +10,25 @@ export const NATURAL_NOTES = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
 export const STANDARD_TUNING_OFFSETS = [0, 5, 10, 15, 19, 24];
 
 export const TUNING_PRESETS: TuningPreset[] = [
-  { name: 'Standard (EADGBE)', offsets: [0, 5, 10, 15, 19, 24] },
-  { name: 'Drop D (DADGBE)', offsets: [-2, 5, 10, 15, 19, 24] },
-  { name: 'Double Drop D (DADGBD)', offsets: [-2, 5, 10, 15, 19, 22] },
-  { name: 'DADGAD', offsets: [-2, 5, 10, 15, 17, 22] },
-  { name: 'Open D (DADF#AD)', offsets: [-2, 5, 10, 14, 17, 22] },
-  { name: 'Open G (DGDGBD)', offsets: [-2, 3, 10, 15, 19, 22] },
-  { name: 'Open C (CGCGCE)', offsets: [-4, 3, 8, 15, 20, 24] },
-  { name: 'Half Step Down', offsets: [-1, 4, 9, 14, 18, 23] },
-  { name: 'Whole Step Down', offsets: [-2, 3, 8, 13, 17, 22] },
+  { name: 'Standard (EADGBE)', instrument: 'Guitar', offsets: [0, 5, 10, 15, 19, 24] },
+  { name: 'Drop D (DADGBE)', instrument: 'Guitar', offsets: [-2, 5, 10, 15, 19, 24] },
+  { name: 'Double Drop D (DADGBD)', instrument: 'Guitar', offsets: [-2, 5, 10, 15, 19, 22] },
+  { name: 'DADGAD', instrument: 'Guitar', offsets: [-2, 5, 10, 15, 17, 22] },
+  { name: 'Open D (DADF#AD)', instrument: 'Guitar', offsets: [-2, 5, 10, 14, 17, 22] },
+  { name: 'Open G (DGDGBD)', instrument: 'Guitar', offsets: [-2, 3, 10, 15, 19, 22] },
+  { name: 'Open C (CGCGCE)', instrument: 'Guitar', offsets: [-4, 3, 8, 15, 20, 24] },
+  { name: 'Half Step Down', instrument: 'Guitar', offsets: [-1, 4, 9, 14, 18, 23] },
+  { name: 'Whole Step Down', instrument: 'Guitar', offsets: [-2, 3, 8, 13, 17, 22] },
+  { name: '7-String Standard (BEADGBE)', instrument: '7-String Guitar', offsets: [-5, 0, 5, 10, 15, 19, 24] },
+  { name: '7-String Drop A (AEADGBE)', instrument: '7-String Guitar', offsets: [-7, 0, 5, 10, 15, 19, 24] },
+  // Bass sounds an octave below guitar: E1 is -12
+  { name: 'Bass Standard (EADG)', instrument: 'Bass', offsets: [-12, -7, -2, 3] },
+  { name: 'Bass Drop D (DADG)', instrument: 'Bass', offsets: [-14, -7, -2, 3] },
+  { name: '5-String Bass (BEADG)', instrument: 'Bass', offsets: [-17, -12, -7, -2, 3] },
+  // Re-entrant: the G string nearest the thumb is tuned above the C
+  { name: 'Ukulele Standard (gCEA)', instrument: 'Ukulele', offsets: [27, 20, 24, 29] },
+  { name: 'Ukulele Low G (GCEA)', instrument: 'Ukulele', offsets: [15, 20, 24, 29] },
+  { name: 'Baritone Ukulele (DGBE)', instrument: 'Ukulele', offsets: [10, 15, 19, 24] },
 ];
 
 export const INITIAL_MAX_FRET = 3;
@@ -162,13 +172,72 @@ export const getScaleNotes = (root: string, type: 'MAJOR' | 'NATURAL_MINOR' | 'D
   });
 };
 
-export const getChordNotes = (root: string, type: 'MAJOR' | 'NATURAL_MINOR'): string[] => {
+// Chromatic scale degrees relative to a tonic, used for notes outside the scale
+const CHROMATIC_DEGREE_NAMES = ['1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7'];
+
+/**
+ * Scale degree of a note in a key, spelled against the major scale of the tonic (e.g. b3 in minor, #4 in Lydian)
+ * Notes outside the scale get their chromatic degree
+ */
+export const getScaleDegree = (noteName: string, keyRoot: string, keyScale: ScaleType): string => {
+  const rootIndex = NOTES_SHARP.indexOf(keyRoot);
+  const noteIndex = NOTES_SHARP.indexOf(noteName);
+  if (rootIndex === -1 || noteIndex === -1) return '?';
+
+  const semitones = (noteIndex - rootIndex + 12) % 12;
+  if (keyScale && MODE_OFFSETS.hasOwnProperty(keyScale)) {
+    const degreeIndex = getScaleNotes(keyRoot, keyScale).indexOf(noteName);
+    if (degreeIndex !== -1) {
+      const shift = semitones - SCALE_INTERVALS.MAJOR[degreeIndex];
+      const accidental = shift < 0 ? 'b' : shift > 0 ? '#' : '';
+      return `${accidental}${degreeIndex + 1}`;
+    }
+  }
+  return CHROMATIC_DEGREE_NAMES[semitones];
+};
+
+/**
+ * All twelve degree names for a key, in semitone order from the tonic
+ */
+export const getScaleDegreeNames = (keyRoot: string, keyScale: ScaleType): string[] => {
+  const rootIndex = Math.max(0, NOTES_SHARP.indexOf(keyRoot));
+  return NOTES_SHARP.map((_, semitones) => getScaleDegree(NOTES_SHARP[(rootIndex + semitones) % 12], NOTES_SHARP[rootIndex], keyScale));
+};
+
+// Chord tones as semitones above the root: root, third, fifth and (for seventh chords) seventh
+export const CHORD_INTERVALS: Record<ChordQuality, number[]> = {
+  MAJOR: [0, 4, 7],
+  NATURAL_MINOR: [0, 3, 7],
+  DIMINISHED: [0, 3, 6],
+  AUGMENTED: [0, 4, 8],
+  MAJOR_7: [0, 4, 7, 11],
+  DOMINANT_7: [0, 4, 7, 10],
+  MINOR_7: [0, 3, 7, 10],
+  HALF_DIMINISHED_7: [0, 3, 6, 10],
+  DIMINISHED_7: [0, 3, 6, 9]
+};
+
+// Suffix appended to the root for the chord symbol (e.g. "A" + "m7")
+export const CHORD_SYMBOLS: Record<ChordQuality, string> = {
+  MAJOR: '',
+  NATURAL_MINOR: 'm',
+  DIMINISHED: 'dim',
+  AUGMENTED: 'aug',
+  MAJOR_7: 'maj7',
+  DOMINANT_7: '7',
+  MINOR_7: 'm7',
+  HALF_DIMINISHED_7: 'm7b5',
+  DIMINISHED_7: 'dim7'
+};
+
+// Chord tone labels, in the same order as CHORD_INTERVALS
+export const CHORD_TONE_NAMES = ['R', '3', '5', '7'];
+
+export const getChordNotes = (root: string, type: ChordQuality): string[] => {
   const rootIndex = NOTES_SHARP.indexOf(root);
   if (rootIndex === -1) return [];
 
-  // Major: 0 (Root), 4 (Maj3), 7 (P5)
-  // Minor: 0 (Root), 3 (Min3), 7 (P5)
-  const intervals = type === 'MAJOR' ? [0, 4, 7] : [0, 3, 7];
+  const intervals = CHORD_INTERVALS[type] || CHORD_INTERVALS.MAJOR;
   
   return intervals.map(interval => {
     const noteIndex = (rootIndex + interval) % 12;
@@ -176,6 +245,65 @@ export const getChordNotes = (root: string, type: 'MAJOR' | 'NATURAL_MINOR'): st
   });
 };
 
+/**
+ * Which chord tone (R, 3, 5, 7) a note is in a chord, or null when it is not in the chord
+ */
+export const getChordTone = (noteName: string, root: string, type: ChordQuality): string | null => {
+  const index = getChordNotes(root, type).indexOf(noteName);
+  return index === -1 ? null : CHORD_TONE_NAMES[index];
+};
+
+// ============================================================================
+// KEY SIGNATURE UTILITIES
+// ============================================================================
+
+export interface KeySignature {
+  major: string;       // Major key as written, e.g. 'Bb', 'F#', 'Cb'
+  accidentals: number; // Sharps (positive) or flats (negative) in the signature
+}
+
+// Order sharps are added to a signature; flats are added in reverse
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+const getSignatureLetters = (accidentals: number): string[] =>
+  accidentals >= 0 ? SHARP_ORDER.slice(0, accidentals) : [...SHARP_ORDER].reverse().slice(0, -accidentals);
+
+/**
+ * Tonic of a mode within a key signature, spelled with the signature's accidentals
+ * e.g. (-2, 'MAJOR') -> 'Bb', (-2, 'NATURAL_MINOR') -> 'G', (3, 'DORIAN') -> 'B'
+ */
+export const getKeySignatureTonic = (accidentals: number, mode: ScaleType = 'MAJOR'): string => {
+  // Each sharp moves the major tonic up a fifth (4 letters), each flat down a fifth
+  const degree = SCALE_INTERVALS.MAJOR.indexOf(MODE_OFFSETS[mode]);
+  const letter = NATURAL_NOTES[(((accidentals * 4 + degree) % 7) + 7) % 7];
+  if (!getSignatureLetters(accidentals).includes(letter)) return letter;
+  return letter + (accidentals > 0 ? '#' : 'b');
+};
+
+/**
+ * All 15 key signatures, from 7 flats to 7 sharps. Each major root gets its usual spelling
+ * (PREFER_FLATS_MAJOR), and B/Cb, F#/Gb and C#/Db also get their enharmonic signature
+ */
+export const KEY_SIGNATURES: KeySignature[] = NOTES_SHARP
+  .flatMap(root => {
+    const fifthsAboveC = (NOTES_SHARP.indexOf(root) * 7) % 12;
+    const usual = PREFER_FLATS_MAJOR.includes(root) ? fifthsAboveC - 12 : fifthsAboveC;
+    const enharmonic = usual > 0 ? usual - 12 : usual + 12;
+    return [usual, enharmonic].filter(count => Math.abs(count) <= 7);
+  })
+  .sort((a, b) => a - b)
+  .map(accidentals => ({ major: getKeySignatureTonic(accidentals), accidentals }));
+
+/**
+ * Accidental the signature of a major key applies to each altered letter, e.g. 'D' -> { F: '#', C: '#' }
+ */
+export const getKeySignatureAccidentals = (major: string): Record<string, string> => {
+  const signature = KEY_SIGNATURES.find(k => k.major === major);
+  if (!signature) return {};
+  const accidental = signature.accidentals > 0 ? '#' : 'b';
+  return Object.fromEntries(getSignatureLetters(signature.accidentals).map(letter => [letter, accidental]));
+};
+
 export const getOffsetNoteName = (offset: number): string => {
   const baseIndex = 4; // E
   let absoluteIndex = (baseIndex + offset) % 12;
@@ -183,6 +311,31 @@ export const getOffsetNoteName = (offset: number): string => {
   return NOTES_SHARP[absoluteIndex];
 };
 
+// ============================================================================
+// INTERVAL UTILITIES
+// ============================================================================
+
+// Interval names by semitone distance (index 0 = m2), simple intervals then compounds up to two octaves
+export const INTERVAL_NAMES = [
+  'm2', 'M2', 'm3', 'M3', 'P4', 'TT', 'P5', 'm6', 'M6', 'm7', 'M7', 'P8',
+  'm9', 'M9', 'm10', 'M10', 'P11', 'A11', 'P12', 'm13', 'M13', 'm14', 'M14', 'P15'
+];
+
+export const MAX_INTERVAL_SEMITONES = INTERVAL_NAMES.length;
+
+/**
+ * Absolute pitch of a fretboard position in semitones above E2
+ */
+export const getPositionPitch = (stringOffset: number, fretIndex: number): number => stringOffset + fretIndex;
+
+/**
+ * Interval name for an ascending distance in semitones (1 = m2 ... 24 = P15)
+ */
+export const getIntervalName = (semitones: number): string | null => {
+  if (semitones < 1 || semitones > MAX_INTERVAL_SEMITONES) return null;
+  return INTERVAL_NAMES[semitones - 1];
+};
+
 // ============================================================================
 // STAFF NOTATION UTILITIES
 // ============================================================================
@@ -193,6 +346,8 @@ export const getOffsetNoteName = (offset: number): string => {
 export interface StaffNoteData {
   noteName: string;  // e.g., 'C', 'F#', 'Bb'
   octave: number;    // e.g., 4 for middle C
+  duration?: NoteDurationType; // Written length, used by multi-note passages
+  tied?: boolean;    // Tied from the previous note: same pitch, not played again
 }
 
 /**
@@ -204,7 +359,8 @@ export interface StaffNoteData {
  * - String 2 (B): B3 to B4
  * - String 1 (High E): E4 to E5
  *
- * Full range: E2 to E5 (roughly 3 octaves)
+ * Full range: E2 to E5 (roughly 3 octaves). Other instruments fall outside it:
+ * a 5-string bass reaches down to B0, a ukulele stays between C4 and A5
  */
 
 // Treble clef comfortable range: C4 (middle C) to G5
@@ -356,40 +512,87 @@ export const parseNoteString = (noteStr: string): StaffNoteData | null => {
 
 /**
  * Converts a StaffNoteData to a comparable number (semitones from C0)
+ * Works from the letter plus accidentals, so spellings like "E#" or "Cb" resolve too
  */
 export const noteToSemitones = (note: StaffNoteData): number => {
-  const noteIndex = NOTES_SHARP.indexOf(note.noteName.replace('♯', '#').replace('♭', 'b'));
-  if (noteIndex === -1) {
-    // Try flat version
-    const flatIndex = NOTES_FLAT.indexOf(note.noteName.replace('♭', 'b'));
-    if (flatIndex === -1) return 0;
-    return note.octave * 12 + flatIndex;
+  const name = note.noteName.replace('♯', '#').replace('♭', 'b');
+  const letterIndex = NOTES_SHARP.indexOf(name.charAt(0).toUpperCase());
+  if (letterIndex === -1) return 0;
+
+  let accidentalShift = 0;
+  for (const symbol of name.slice(1)) {
+    if (symbol === '#') accidentalShift++;
+    else if (symbol === 'b') accidentalShift--;
   }
-  return note.octave * 12 + noteIndex;
+  return note.octave * 12 + letterIndex + accidentalShift;
 };
 
 /**
- * Generates a random staff note within a specific note range (not just octave)
+ * Diatonic step index of a note, ignoring accidentals (C0 = 0, D0 = 1, ... C4 = 28)
+ */
+export const getDiatonicIndex = (note: StaffNoteData): number => {
+  const letterIndex = NATURAL_NOTES.indexOf(note.noteName.charAt(0).toUpperCase());
+  return note.octave * 7 + Math.max(0, letterIndex);
+};
+
+/**
+ * Natural note for a diatonic step index (inverse of getDiatonicIndex)
+ */
+export const diatonicIndexToNote = (index: number): StaffNoteData => {
+  const octave = Math.floor(index / 7);
+  return { noteName: NATURAL_NOTES[index - octave * 7], octave };
+};
+
+// Diatonic index of the top staff line: F5 in treble clef, A3 in bass clef
+const STAFF_TOP_LINE_INDEX: Record<'treble' | 'bass', number> = {
+  treble: 5 * 7 + 3,
+  bass: 3 * 7 + 5
+};
+
+// How far above/below the staff a written note may be placed
+export const MAX_LEDGER_LINES = 5;
+
+/**
+ * Vertical staff position of a written note, counted in half-spaces down from the top line
+ * 0 = top line, 8 = bottom line, negative = above the staff, > 8 = below the staff
+ */
+export const getStaffStep = (note: StaffNoteData, clef: 'treble' | 'bass'): number => {
+  return STAFF_TOP_LINE_INDEX[clef] - getDiatonicIndex(note);
+};
+
+/**
+ * Written natural note at a staff position (inverse of getStaffStep)
+ */
+export const staffStepToNote = (step: number, clef: 'treble' | 'bass'): StaffNoteData => {
+  return diatonicIndexToNote(STAFF_TOP_LINE_INDEX[clef] - step);
+};
+
+/**
+ * Whether a written note can be reached within the allowed number of ledger lines
+ */
+export const fitsOnStaff = (note: StaffNoteData, clef: 'treble' | 'bass', maxLedgerLines: number = MAX_LEDGER_LINES): boolean => {
+  const step = getStaffStep(note, clef);
+  return step >= -2 * maxLedgerLines - 1 && step <= 8 + 2 * maxLedgerLines + 1;
+};
+
+/**
+ * All staff notes allowed by the focus mode within a note range, lowest first
  * @param lowNote The lowest allowed note (e.g., "E2")
  * @param highNote The highest allowed note (e.g., "E5")
  * @param focusMode Focus mode to filter notes
  * @param keyRoot Optional key root for KEY focus mode
  * @param keyScale Optional scale type for KEY focus mode
  */
-export const generateRandomStaffNoteInRange = (
+export const getStaffNotesInRange = (
   lowNote: string,
   highNote: string,
   focusMode: 'ALL' | 'NATURALS' | 'KEY' = 'ALL',
   keyRoot?: string | null,
   keyScale?: string | null
-): StaffNoteData => {
+): StaffNoteData[] => {
   const lowParsed = parseNoteString(lowNote);
   const highParsed = parseNoteString(highNote);
-
-  if (!lowParsed || !highParsed) {
-    // Fallback to default range
-    return generateRandomStaffNote(2, 5, focusMode, keyRoot, keyScale);
-  }
+  if (!lowParsed || !highParsed) return [];
 
   const lowSemitones = noteToSemitones(lowParsed);
   const highSemitones = noteToSemitones(highParsed);
@@ -425,6 +628,31 @@ export const generateRandomStaffNoteInRange = (
     }
   }
 
+  return validNotes.sort((a, b) => noteToSemitones(a) - noteToSemitones(b));
+};
+
+/**
+ * Generates a random staff note within a specific note range (not just octave)
+ * @param lowNote The lowest allowed note (e.g., "E2")
+ * @param highNote The highest allowed note (e.g., "E5")
+ * @param focusMode Focus mode to filter notes
+ * @param keyRoot Optional key root for KEY focus mode
+ * @param keyScale Optional scale type for KEY focus mode
+ */
+export const generateRandomStaffNoteInRange = (
+  lowNote: string,
+  highNote: string,
+  focusMode: 'ALL' | 'NATURALS' | 'KEY' = 'ALL',
+  keyRoot?: string | null,
+  keyScale?: string | null
+): StaffNoteData => {
+  if (!parseNoteString(lowNote) || !parseNoteString(highNote)) {
+    // Fallback to default range
+    return generateRandomStaffNote(2, 5, focusMode, keyRoot, keyScale);
+  }
+
+  const validNotes = getStaffNotesInRange(lowNote, highNote, focusMode, keyRoot, keyScale);
+
   // If no valid notes found, return middle of range
   if (validNotes.length === 0) {
     return { noteName: 'C', octave: 4 };
@@ -433,4 +661,141 @@ export const generateRandomStaffNoteInRange = (
   // Pick random note from valid options
   const randomIndex = Math.floor(Math.random() * validNotes.length);
   return validNotes[randomIndex];
-};
\ No newline at end of file
+};
+
+// ============================================================================
+// PASSAGE UTILITIES
+// ============================================================================
+
+/**
+ * Length of each written duration in sixteenth notes
+ */
+export const DURATION_SIXTEENTHS: Record<NoteDurationType, number> = {
+  'w': 16,
+  'h': 8,
+  'q': 4,
+  '8': 2,
+  '16': 1,
+  'wd': 24,
+  'hd': 12,
+  'qd': 6,
+  '8d': 3
+};
+
+// Longest first, so a gap is filled with as few tied notes as possible
+const FILL_DURATIONS: NoteDurationType[] = ['w', 'hd', 'h', 'qd', 'q', '8d', '8', '16'];
+
+/**
+ * Length of one measure in sixteenth notes, e.g. "3/4" -> 12, "6/8" -> 12
+ */
+export const getMeasureSixteenths = (timeSignature: string): number => {
+  const [beats, beatValue] = timeSignature.split('/').map(Number);
+  if (!beats || !beatValue) return 16;
+  return Math.round(beats * 16 / beatValue);
+};
+
+/**
+ * Length of the beat the time signature counts in sixteenth notes, e.g. "3/4" -> 4, "6/8" -> 2
+ */
+export const getBeatSixteenths = (timeSignature: string): number => {
+  const beatValue = Number(timeSignature.split('/')[1]);
+  return beatValue ? 16 / beatValue : 4;
+};
+
+/**
+ * Where each written note starts, in sixteenths from the start of the passage
+ */
+export const getNoteOnsets = (notes: StaffNoteData[]): number[] => {
+  let position = 0;
+  return notes.map(note => {
+    const onset = position;
+    position += DURATION_SIXTEENTHS[note.duration || 'q'];
+    return onset;
+  });
+};
+
+/**
+ * Splits a span into written durations, longest first (5 sixteenths -> quarter + sixteenth)
+ */
+const splitIntoDurations = (sixteenths: number): NoteDurationType[] => {
+  const durations: NoteDurationType[] = [];
+  let remaining = sixteenths;
+  while (remaining > 0) {
+    const duration = FILL_DURATIONS.find(d => DURATION_SIXTEENTHS[d] <= remaining) || '16';
+    durations.push(duration);
+    remaining -= DURATION_SIXTEENTHS[duration];
+  }
+  return durations;
+};
+
+/**
+ * Picks a melodic line through a pool of notes: each note moves by at least one and at most
+ * maxLeap staff steps (1 = stepwise), instead of jumping anywhere in the range
+ */
+export const generateMelodicLine = (pool: StaffNoteData[], count: number, maxLeap: number): StaffNoteData[] => {
+  if (pool.length === 0) return [];
+  const line: StaffNoteData[] = [pool[Math.floor(Math.random() * pool.length)]];
+
+  while (line.length < count) {
+    const previousIndex = getDiatonicIndex(line[line.length - 1]);
+    const candidates = pool.filter(n => {
+      const leap = Math.abs(getDiatonicIndex(n) - previousIndex);
+      return leap >= 1 && leap <= maxLeap;
+    });
+    // A pool too sparse for the leap limit falls back to the nearest other note
+    const nextPool = candidates.length > 0
+      ? candidates
+      : pool.filter(n => getDiatonicIndex(n) !== previousIndex)
+          .sort((a, b) => Math.abs(getDiatonicIndex(a) - previousIndex) - Math.abs(getDiatonicIndex(b) - previousIndex))
+          .slice(0, 1);
+    line.push(nextPool.length > 0 ? nextPool[Math.floor(Math.random() * nextPool.length)] : line[line.length - 1]);
+  }
+
+  return line;
+};
+
+/**
+ * Lays a melodic line out in measures of the time signature. Notes crossing a bar line are split
+ * into tied notes, and the last note is held (tied if needed) until the final bar line
+ * @param pitches The notes to play, one per attack
+ * @param durations Written durations to pick from for each attack
+ * @param timeSignature e.g. "4/4"
+ * @returns Written notes; tied continuations carry tied: true
+ */
+export const arrangeInMeasures = (
+  pitches: StaffNoteData[],
+  durations: NoteDurationType[],
+  timeSignature: string
+): StaffNoteData[] => {
+  const measureLength = getMeasureSixteenths(timeSignature);
+  const written: StaffNoteData[] = [];
+  let position = 0;
+
+  // Writes a span of one pitch from the current position, breaking it at every bar line it crosses
+  const writeSpan = (pitch: StaffNoteData, length: number, continuesTie: boolean) => {
+    let remaining = length;
+    let tied = continuesTie;
+    while (remaining > 0) {
+      const untilBar = measureLength - (position % measureLength);
+      const chunk = Math.min(remaining, untilBar);
+      splitIntoDurations(chunk).forEach(duration => {
+        written.push({ noteName: pitch.noteName, octave: pitch.octave, duration, tied });
+        tied = true;
+      });
+      position += chunk;
+      remaining -= chunk;
+    }
+  };
+
+  pitches.forEach(pitch => {
+    const duration = durations[Math.floor(Math.random() * durations.length)];
+    writeSpan(pitch, DURATION_SIXTEENTHS[duration], false);
+  });
+
+  const lastPitch = pitches[pitches.length - 1];
+  if (lastPitch && position % measureLength !== 0) {
+    writeSpan(lastPitch, measureLength - (position % measureLength), true);
+  }
+
+  return written;
+};
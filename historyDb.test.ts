@@ -0,0 +1,131 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Difficulty, GameMode, ScoreRecord } from './types';
+import { setActiveLearner } from './storage';
+import { addSession, deleteLearnerHistory, loadHistory, queryInteractions, queryInteractionsAt, replaceHistory, saveSessions } from './historyDb';
+
+// Enough of localStorage for the learner and legacy history keys
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+const TUNING = 'Standard (EADGBE)';
+
+// A session on the given day with one answer per position
+const session = (day: number, positions: [number, number][]): ScoreRecord => {
+  const start = Date.UTC(2026, 0, day);
+  return {
+    date: new Date(start).toISOString(),
+    score: positions.length,
+    difficulty: Difficulty.EASY,
+    maxFret: 3,
+    gameMode: GameMode.FRETBOARD_TO_NOTE,
+    tuningName: TUNING,
+    avgTimeSeconds: 1,
+    interactions: positions.map(([stringIndex, fretIndex], i) => ({
+      note: { stringIndex, fretIndex, noteName: 'E' },
+      answer: 'E',
+      isCorrect: true,
+      isTimeout: false,
+      timeTakenMs: 1000,
+      timestamp: start + i * 1000
+    }))
+  };
+};
+
+const days = (...numbers: number[]) => numbers.map(day => session(day, [[0, day % 4], [1, 2]]));
+
+const asLearner = async <T>(learnerId: string, action: () => Promise<T>): Promise<T> => {
+  setActiveLearner(learnerId);
+  return action();
+};
+
+describe('historyDb', () => {
+  beforeEach(async () => {
+    globalThis.localStorage = new MemoryStorage();
+    await deleteLearnerHistory('a');
+    await deleteLearnerHistory('b');
+    setActiveLearner('a');
+  });
+
+  it('appends sessions with their interactions, oldest first', async () => {
+    const [first, second] = days(2, 1);
+    await addSession(first, [first]);
+    await addSession(second, [first, second]);
+    expect(await loadHistory()).toEqual([second, first]);
+  });
+
+  it('saves pulled sessions over the saved ones with the same date, keeping the rest', async () => {
+    const [first, second] = days(1, 2);
+    await replaceHistory([first, second]);
+    const grown = { ...first, interactions: [...first.interactions, { ...first.interactions[0], timestamp: first.interactions[0].timestamp + 5000 }] };
+    const pulled = session(3, [[3, 3]]);
+    await saveSessions([grown, pulled], [grown, second, pulled]);
+    expect(await loadHistory()).toEqual([grown, second, pulled]);
+    const interactions = await queryInteractions(TUNING, 0, Date.UTC(2027, 0, 1), []);
+    expect(interactions).toHaveLength(6);
+  });
+
+  it('replaces N sessions with M', async () => {
+    const [first, second] = days(1, 2);
+    await addSession(first, [first]);
+    await addSession(second, [first, second]);
+
+    const replacement = days(3, 4, 5);
+    await replaceHistory(replacement);
+    expect(await loadHistory()).toEqual(replacement);
+    const interactions = await queryInteractions(TUNING, 0, Date.UTC(2027, 0, 1), replacement);
+    expect(interactions).toHaveLength(6);
+  });
+
+  it('replaces a history with a shorter one, or with nothing', async () => {
+    await replaceHistory(days(1, 2, 3));
+    await replaceHistory(days(4));
+    expect(await loadHistory()).toEqual(days(4));
+    await replaceHistory([]);
+    expect(await loadHistory()).toEqual([]);
+  });
+
+  it('leaves other learners’ sessions alone', async () => {
+    const others = days(10, 11);
+    await asLearner('b', () => replaceHistory(others));
+    await asLearner('a', () => replaceHistory(days(1, 2)));
+    await asLearner('a', () => replaceHistory(days(3)));
+    expect(await asLearner('a', loadHistory)).toEqual(days(3));
+    expect(await asLearner('b', loadHistory)).toEqual(others);
+    await asLearner('a', () => deleteLearnerHistory('a'));
+    expect(await asLearner('b', loadHistory)).toEqual(others);
+  });
+
+  it('saves for the learner who was active when the save was asked for', async () => {
+    const [first] = days(1);
+    const saving = addSession(first, [first]);
+    setActiveLearner('b');
+    const replacing = replaceHistory(days(2));
+    setActiveLearner('a');
+    await Promise.all([saving, replacing]);
+    expect(await asLearner('a', loadHistory)).toEqual([first]);
+    expect(await asLearner('b', loadHistory)).toEqual(days(2));
+  });
+
+  it('queries interactions by tuning and time', async () => {
+    await replaceHistory(days(1, 2, 3));
+    const fromDay2 = await queryInteractions(TUNING, Date.UTC(2026, 0, 2), Date.UTC(2026, 0, 3) - 1, []);
+    expect(fromDay2.map(i => i.position)).toEqual(['0-2', '1-2']);
+    expect(await queryInteractions('Drop D (DADGBE)', 0, Date.UTC(2027, 0, 1), [])).toEqual([]);
+  });
+
+  it('queries interactions by position, oldest first', async () => {
+    await replaceHistory(days(6, 2, 3));
+    const atFret2 = await queryInteractionsAt(TUNING, '0-2', []);
+    expect(atFret2.map(i => i.timestamp)).toEqual([Date.UTC(2026, 0, 2), Date.UTC(2026, 0, 6)]);
+    expect(await queryInteractionsAt(TUNING, '1-2', [])).toHaveLength(3);
+    expect(await asLearner('b', () => queryInteractionsAt(TUNING, '0-2', []))).toEqual([]);
+  });
+});
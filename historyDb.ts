@@ -0,0 +1,324 @@
+import { GameMode, NoteInteraction, ScoreRecord } from "./types";
+import { DEFAULT_LEARNER_ID, STORAGE_SCHEMA_VERSION, getActiveLearnerId, loadStored, saveStored, removeStored, migrateRecords } from "./storage";
+
+// ============================================================================
+// SESSION HISTORY (IndexedDB)
+// Sessions and their interactions are kept in separate object stores so saving
+// a session appends its own rows instead of rewriting the whole history, and
+// interactions can be queried by time, tuning or position without loading sessions
+// ============================================================================
+
+const DB_NAME = 'fretude';
+const DB_VERSION = 2;
+const SESSIONS = 'sessions';
+const INTERACTIONS = 'interactions';
+
+type StoredSession = Omit<ScoreRecord, 'interactions'> & { id?: number; learnerId: string; schemaVersion: number };
+
+// An interaction with what it is queried by copied from its session
+export interface StoredInteraction extends NoteInteraction {
+  sessionId: number;
+  learnerId: string;
+  tuningName?: string;
+  gameMode?: GameMode;
+  position?: string; // "stringIndex-fretIndex", absent when no position was asked
+}
+
+const QUERY_FIELDS: (keyof StoredInteraction)[] = ['sessionId', 'learnerId', 'tuningName', 'gameMode', 'position'];
+
+// Set when IndexedDB cannot be opened (e.g. some private browsing modes); history then stays in localStorage
+let useLocalStorage = false;
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Reads wait for earlier writes so a query right after a save sees it
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const upgrade = request.transaction!;
+        if (event.oldVersion < 1) {
+          const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id', autoIncrement: true });
+          sessions.createIndex('date', 'date');
+          const interactions = db.createObjectStore(INTERACTIONS, { autoIncrement: true });
+          interactions.createIndex('sessionId', 'sessionId');
+          interactions.createIndex('timestamp', 'timestamp');
+        }
+        if (event.oldVersion < 2) {
+          // Learner profiles: rows saved before them belong to the default learner
+          const sessions = upgrade.objectStore(SESSIONS);
+          const interactions = upgrade.objectStore(INTERACTIONS);
+          ['tuningTimestamp', 'position'].forEach(name => {
+            if (interactions.indexNames.contains(name)) interactions.deleteIndex(name);
+          });
+          sessions.createIndex('learnerId', 'learnerId');
+          interactions.createIndex('learnerId', 'learnerId');
+          interactions.createIndex('tuningTimestamp', ['learnerId', 'tuningName', 'timestamp']);
+          interactions.createIndex('position', ['learnerId', 'tuningName', 'position']);
+          [sessions, interactions].forEach(store => {
+            store.openCursor().onsuccess = (e) => {
+              const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+              if (!cursor) return;
+              if (cursor.value.learnerId === undefined) cursor.update({ ...cursor.value, learnerId: DEFAULT_LEARNER_ID });
+              cursor.continue();
+            };
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Where an interaction was asked, as stored in the position index
+const getPosition = (interaction: NoteInteraction): string | undefined =>
+  interaction.note ? `${interaction.note.stringIndex}-${interaction.note.fretIndex}` : undefined;
+
+// Queues sessions on a readwrite transaction; each session's interactions follow once it has its id.
+// The learner is passed in as it was when the write was asked for, not when the queued write runs
+const putSessions = (transaction: IDBTransaction, records: ScoreRecord[], learnerId: string) => {
+  const sessions = transaction.objectStore(SESSIONS);
+  const interactions = transaction.objectStore(INTERACTIONS);
+  records.forEach(record => {
+    const { interactions: recordInteractions, ...fields } = record;
+    const session: StoredSession = { ...fields, learnerId, schemaVersion: STORAGE_SCHEMA_VERSION };
+    const request = sessions.add(session);
+    request.onsuccess = () => {
+      const sessionId = request.result as number;
+      (recordInteractions || []).forEach(interaction => {
+        const row: StoredInteraction = {
+          ...interaction,
+          sessionId,
+          learnerId,
+          tuningName: record.tuningName,
+          gameMode: record.gameMode,
+          position: getPosition(interaction)
+        };
+        interactions.add(row);
+      });
+    };
+  });
+};
+
+const toInteraction = (row: StoredInteraction): NoteInteraction => {
+  const interaction = { ...row } as Partial<StoredInteraction>;
+  QUERY_FIELDS.forEach(field => delete interaction[field]);
+  return interaction as NoteInteraction;
+};
+
+const queueWrite = (write: () => Promise<void>): Promise<void> => {
+  pendingWrite = pendingWrite.then(write, write);
+  return pendingWrite;
+};
+
+// Deletes every session of a learner, with its interactions, within an open transaction.
+// The keys are read before anything queued after this call, so rows added in the same transaction are kept
+// (a cursor would walk on into them)
+const deleteLearnerRows = (transaction: IDBTransaction, learnerId: string) => {
+  [SESSIONS, INTERACTIONS].forEach(name => {
+    const store = transaction.objectStore(name);
+    const request = store.index('learnerId').getAllKeys(IDBKeyRange.only(learnerId));
+    request.onsuccess = () => request.result.forEach(key => store.delete(key));
+  });
+};
+
+// Deletes a learner's sessions with the given dates, with their interactions, within an open transaction.
+// Like deleteLearnerRows, sessions added later in the same transaction are not seen
+const deleteSessionRows = (transaction: IDBTransaction, learnerId: string, dates: string[]) => {
+  const sessions = transaction.objectStore(SESSIONS);
+  const interactions = transaction.objectStore(INTERACTIONS);
+  dates.forEach(date => {
+    const request = sessions.index('date').getAll(IDBKeyRange.only(date)) as IDBRequest<StoredSession[]>;
+    request.onsuccess = () => request.result
+      .filter(session => session.learnerId === learnerId)
+      .forEach(session => {
+        sessions.delete(session.id!);
+        const keys = interactions.index('sessionId').getAllKeys(IDBKeyRange.only(session.id!));
+        keys.onsuccess = () => keys.result.forEach(key => interactions.delete(key));
+      });
+  });
+};
+
+// Histories saved before IndexedDB was used are moved over once, then removed from localStorage
+const moveLocalStorageHistory = async (db: IDBDatabase, learnerId: string) => {
+  const legacy = loadStored('history');
+  if (legacy.length === 0) return;
+  const transaction = db.transaction([SESSIONS, INTERACTIONS], 'readwrite');
+  putSessions(transaction, legacy, learnerId);
+  await transactionDone(transaction);
+  removeStored('history');
+};
+
+/**
+ * Every session the active learner has saved, with its interactions, oldest first
+ */
+export const loadHistory = async (): Promise<ScoreRecord[]> => {
+  const learnerId = getActiveLearnerId();
+  if (useLocalStorage) return loadStored('history');
+  let db: IDBDatabase;
+  try {
+    db = await openDb();
+  } catch (e) {
+    console.error("IndexedDB unavailable, keeping history in localStorage", e);
+    useLocalStorage = true;
+    return loadStored('history');
+  }
+
+  try {
+    await queueWrite(() => moveLocalStorageHistory(db, learnerId));
+  } catch (e) {
+    console.error("Failed to move history to IndexedDB, keeping it in localStorage", e);
+    useLocalStorage = true;
+    return loadStored('history');
+  }
+
+  const learner = IDBKeyRange.only(learnerId);
+  const transaction = db.transaction([SESSIONS, INTERACTIONS], 'readonly');
+  const [sessions, rows] = await Promise.all([
+    requestToPromise(transaction.objectStore(SESSIONS).index('learnerId').getAll(learner) as IDBRequest<StoredSession[]>),
+    requestToPromise(transaction.objectStore(INTERACTIONS).index('learnerId').getAll(learner) as IDBRequest<StoredInteraction[]>)
+  ]);
+  sessions.sort((a, b) => a.date.localeCompare(b.date));
+
+  const bySession = new Map<number, NoteInteraction[]>();
+  rows.forEach(row => {
+    if (!bySession.has(row.sessionId)) bySession.set(row.sessionId, []);
+    bySession.get(row.sessionId)!.push(toInteraction(row));
+  });
+
+  // Sessions saved under an older schema are upgraded as they are read
+  return sessions.map(({ id, learnerId: _learnerId, schemaVersion, ...session }) =>
+    migrateRecords([{ ...session, interactions: bySession.get(id!) || [] }], schemaVersion)[0] as ScoreRecord
+  );
+};
+
+/**
+ * Appends one finished session
+ * @param history The full history including the new session, only used without IndexedDB
+ */
+export const addSession = (record: ScoreRecord, history: ScoreRecord[]): Promise<void> => {
+  if (useLocalStorage) {
+    saveStored('history', history);
+    return Promise.resolve();
+  }
+  const learnerId = getActiveLearnerId();
+  return queueWrite(async () => {
+    const transaction = (await openDb()).transaction([SESSIONS, INTERACTIONS], 'readwrite');
+    putSessions(transaction, [record], learnerId);
+    await transactionDone(transaction);
+  }).catch(e => console.error("Failed to save session", e));
+};
+
+/**
+ * Saves sessions that are new or changed (merged from a sync), replacing any saved session with the same date
+ * @param history The full history including the sessions, only used without IndexedDB
+ */
+export const saveSessions = (records: ScoreRecord[], history: ScoreRecord[]): Promise<void> => {
+  if (useLocalStorage) {
+    saveStored('history', history);
+    return Promise.resolve();
+  }
+  const learnerId = getActiveLearnerId();
+  return queueWrite(async () => {
+    const transaction = (await openDb()).transaction([SESSIONS, INTERACTIONS], 'readwrite');
+    deleteSessionRows(transaction, learnerId, records.map(record => record.date));
+    putSessions(transaction, records, learnerId);
+    await transactionDone(transaction);
+  });
+};
+
+/**
+ * Replaces every session of the active learner (restoring a backup)
+ */
+export const replaceHistory = (history: ScoreRecord[]): Promise<void> => {
+  if (useLocalStorage) {
+    saveStored('history', history);
+    return Promise.resolve();
+  }
+  const learnerId = getActiveLearnerId();
+  return queueWrite(async () => {
+    const transaction = (await openDb()).transaction([SESSIONS, INTERACTIONS], 'readwrite');
+    deleteLearnerRows(transaction, learnerId);
+    putSessions(transaction, history, learnerId);
+    await transactionDone(transaction);
+  });
+};
+
+// Every interaction of a history in the stored form, for querying without IndexedDB
+const toStoredInteractions = (history: ScoreRecord[], learnerId: string): StoredInteraction[] =>
+  history.flatMap((record, sessionId) =>
+    (record.interactions || []).map(interaction => ({
+      ...interaction,
+      sessionId,
+      learnerId,
+      tuningName: record.tuningName,
+      gameMode: record.gameMode,
+      position: getPosition(interaction)
+    }))
+  );
+
+/**
+ * Interactions played in a tuning between two times (inclusive), oldest first
+ * @param history Used instead of the database when IndexedDB is unavailable
+ */
+export const queryInteractions = async (tuningName: string, fromTimestamp: number, toTimestamp: number, history: ScoreRecord[]): Promise<StoredInteraction[]> => {
+  const learnerId = getActiveLearnerId();
+  if (useLocalStorage) {
+    return toStoredInteractions(history, learnerId).filter(interaction =>
+      interaction.tuningName === tuningName && interaction.timestamp >= fromTimestamp && interaction.timestamp <= toTimestamp
+    );
+  }
+  await pendingWrite.catch(() => undefined);
+  const transaction = (await openDb()).transaction(INTERACTIONS, 'readonly');
+  const range = IDBKeyRange.bound([learnerId, tuningName, fromTimestamp], [learnerId, tuningName, toTimestamp]);
+  return requestToPromise(transaction.objectStore(INTERACTIONS).index('tuningTimestamp').getAll(range) as IDBRequest<StoredInteraction[]>);
+};
+
+/**
+ * Interactions played at one position in a tuning, oldest first
+ * @param position "stringIndex-fretIndex"
+ * @param history Used instead of the database when IndexedDB is unavailable
+ */
+export const queryInteractionsAt = async (tuningName: string, position: string, history: ScoreRecord[]): Promise<StoredInteraction[]> => {
+  const learnerId = getActiveLearnerId();
+  if (useLocalStorage) {
+    return toStoredInteractions(history, learnerId).filter(interaction =>
+      interaction.tuningName === tuningName && interaction.position === position
+    );
+  }
+  await pendingWrite.catch(() => undefined);
+  const transaction = (await openDb()).transaction(INTERACTIONS, 'readonly');
+  const rows = await requestToPromise(
+    transaction.objectStore(INTERACTIONS).index('position').getAll(IDBKeyRange.only([learnerId, tuningName, position])) as IDBRequest<StoredInteraction[]>
+  );
+  return rows.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Deletes a learner's whole history
+ */
+export const deleteLearnerHistory = (learnerId: string): Promise<void> => {
+  if (useLocalStorage) return Promise.resolve(); // Kept with the learner's other keys, removed by removeLearnerData
+  return queueWrite(async () => {
+    const transaction = (await openDb()).transaction([SESSIONS, INTERACTIONS], 'readwrite');
+    deleteLearnerRows(transaction, learnerId);
+    await transactionDone(transaction);
+  });
+};
@@ -1,12 +1,17 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { runMigrations, restoreActiveLearner } from './storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Stored data must be at the current schema, and the learner known, before anything reads it
+runMigrations();
+restoreActiveLearner();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { StaffNoteData } from './constants';
+import { MidiNoteSource, midiNumberToPitch, parseNoteOn, startMidiNoteListener } from './midiInput';
+
+// A source the test plays messages into; sending after stop() is how a detached device behaves
+const createFakeSource = () => {
+  let onMessage: ((data: Uint8Array) => void) | null = null;
+  const source: MidiNoteSource = {
+    listen: async (handler) => {
+      onMessage = handler;
+      return () => { onMessage = null; };
+    }
+  };
+  return {
+    source,
+    send: (...bytes: number[]) => onMessage?.(new Uint8Array(bytes)),
+    isListening: () => onMessage !== null
+  };
+};
+
+const startListening = async () => {
+  const fake = createFakeSource();
+  const played: StaffNoteData[] = [];
+  const stop = await startMidiNoteListener(pitch => played.push(pitch), fake.source);
+  return { ...fake, played, stop };
+};
+
+describe('parseNoteOn', () => {
+  it('reads note-ons on any channel', () => {
+    expect(parseNoteOn(new Uint8Array([0x90, 60, 100]))).toBe(60);
+    expect(parseNoteOn(new Uint8Array([0x95, 52, 1]))).toBe(52);
+    expect(parseNoteOn(new Uint8Array([0x9f, 40, 127]))).toBe(40);
+  });
+
+  it('treats a note-on with velocity 0 as a note-off', () => {
+    expect(parseNoteOn(new Uint8Array([0x90, 60, 0]))).toBeNull();
+  });
+
+  it('ignores short and non-note messages', () => {
+    expect(parseNoteOn(new Uint8Array([0x90, 60]))).toBeNull();
+    expect(parseNoteOn(new Uint8Array([0x80, 60, 64]))).toBeNull(); // Note-off
+    expect(parseNoteOn(new Uint8Array([0xb0, 64, 127]))).toBeNull(); // Control change
+    expect(parseNoteOn(new Uint8Array([0xf8]))).toBeNull(); // Clock
+  });
+});
+
+describe('midiNumberToPitch', () => {
+  it('maps note numbers to sounding pitches', () => {
+    expect(midiNumberToPitch(40)).toMatchObject({ noteName: 'E', octave: 2 });
+    expect(midiNumberToPitch(60)).toMatchObject({ noteName: 'C', octave: 4 });
+    expect(midiNumberToPitch(69)).toMatchObject({ noteName: 'A', octave: 4 });
+  });
+});
+
+describe('startMidiNoteListener', () => {
+  it('reports the pitch of each note-on from the source', async () => {
+    const { send, played } = await startListening();
+    send(0x90, 40, 90);
+    send(0x93, 60, 64);
+    expect(played).toMatchObject([{ noteName: 'E', octave: 2 }, { noteName: 'C', octave: 4 }]);
+  });
+
+  it('ignores note-offs, zero velocity and other messages', async () => {
+    const { send, played } = await startListening();
+    send(0x90, 60, 0);
+    send(0x80, 60, 64);
+    send(0xb0, 64, 127);
+    send(0x90, 60);
+    expect(played).toEqual([]);
+  });
+
+  it('detaches from the source when stopped', async () => {
+    const { send, played, stop, isListening } = await startListening();
+    send(0x90, 40, 90);
+    stop();
+    send(0x90, 45, 90);
+    expect(isListening()).toBe(false);
+    expect(played).toHaveLength(1);
+  });
+
+  it('rejects when the source cannot be opened', async () => {
+    const source: MidiNoteSource = { listen: () => Promise.reject(new Error('Permission denied')) };
+    await expect(startMidiNoteListener(() => undefined, source)).rejects.toThrow('Permission denied');
+  });
+});
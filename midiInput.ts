@@ -0,0 +1,79 @@
+import { StaffNoteData, fretboardToStaffNote } from "./constants";
+
+// ============================================================================
+// MIDI INPUT
+// Devices are reached through MidiNoteSource so a fake source can stand in for
+// the Web MIDI API (tests, or any other note-producing input)
+// ============================================================================
+
+// MIDI note number of the low E string, the zero point of fretboard offsets
+export const E2_MIDI_NUMBER = 40;
+
+export interface MidiNoteSource {
+  /**
+   * Starts delivering raw MIDI messages from every connected input
+   * @returns Stops delivery and detaches from the devices
+   */
+  listen: (onMessage: (data: Uint8Array) => void) => Promise<() => void>;
+}
+
+/**
+ * Sounding pitch of a MIDI note number (40 -> E2, 60 -> C4)
+ */
+export const midiNumberToPitch = (midiNumber: number): StaffNoteData => {
+  return fretboardToStaffNote(midiNumber - E2_MIDI_NUMBER, 0);
+};
+
+/**
+ * Note number of a note-on message on any channel, or null for anything else
+ * (a note-on with velocity 0 is a note-off by convention)
+ */
+export const parseNoteOn = (data: Uint8Array): number | null => {
+  if (data.length < 3) return null;
+  const isNoteOn = (data[0] & 0xf0) === 0x90;
+  return isNoteOn && data[2] > 0 ? data[1] : null;
+};
+
+/**
+ * The browser's Web MIDI API. Devices plugged in while listening are picked up too
+ */
+export const webMidiSource: MidiNoteSource = {
+  listen: async (onMessage) => {
+    if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+      throw new Error('Web MIDI is not supported in this browser');
+    }
+    const access = await navigator.requestMIDIAccess();
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      if (event.data) onMessage(event.data);
+    };
+    const attachInputs = () => {
+      access.inputs.forEach(input => { input.onmidimessage = handleMessage; });
+    };
+
+    attachInputs();
+    access.onstatechange = attachInputs;
+
+    return () => {
+      access.onstatechange = null;
+      access.inputs.forEach(input => { input.onmidimessage = null; });
+    };
+  }
+};
+
+/**
+ * Reports the pitch of every note-on from a MIDI source
+ * @param onNote Called once per note played
+ * @param source Where the messages come from, the Web MIDI API by default
+ * @returns Stops listening
+ * @throws When the source cannot be opened (no Web MIDI, permission denied)
+ */
+export const startMidiNoteListener = (
+  onNote: (pitch: StaffNoteData) => void,
+  source: MidiNoteSource = webMidiSource
+): Promise<() => void> => {
+  return source.listen(data => {
+    const midiNumber = parseNoteOn(data);
+    if (midiNumber !== null) onNote(midiNumberToPitch(midiNumber));
+  });
+};
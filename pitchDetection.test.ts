@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createNoteOnsetTracker, detectPitch, frequencyToPitch } from './pitchDetection';
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 4096; // Same as the microphone analyser
+const HOP_SIZE = Math.round(SAMPLE_RATE * 0.05); // One analysis every 50ms
+
+// Deterministic noise so a failing case can be replayed
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296 * 2 - 1;
+};
+
+const sine = (frequency: number, length: number = FRAME_SIZE, amplitude: number = 0.5): Float32Array => {
+  const buffer = new Float32Array(length);
+  for (let i = 0; i < length; i++) buffer[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+  return buffer;
+};
+
+// Karplus-Strong plucked string: a burst of noise circulating through an averaging delay line
+const pluck = (frequency: number, seconds: number, seed: number = 1): Float32Array => {
+  const random = createRandom(seed);
+  const period = Math.round(SAMPLE_RATE / frequency - 0.5); // The averaging filter adds half a sample of delay
+  const buffer = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  for (let i = 0; i < buffer.length; i++) {
+    buffer[i] = i < period ? random() * 0.5 : 0.996 * 0.5 * (buffer[i - period] + (buffer[i - period - 1] ?? 0));
+  }
+  return buffer;
+};
+
+const concat = (...buffers: Float32Array[]): Float32Array => {
+  const result = new Float32Array(buffers.reduce((total, b) => total + b.length, 0));
+  let offset = 0;
+  buffers.forEach(b => { result.set(b, offset); offset += b.length; });
+  return result;
+};
+
+// Feeds a recording to a tracker the way the microphone listener does, returning the notes it reports
+const track = (recording: Float32Array): string[] => {
+  const feed = createNoteOnsetTracker();
+  const notes: string[] = [];
+  for (let start = 0; start + FRAME_SIZE <= recording.length; start += HOP_SIZE) {
+    const pitch = feed(recording.subarray(start, start + FRAME_SIZE), SAMPLE_RATE);
+    if (pitch) notes.push(`${pitch.note.noteName}${pitch.note.octave}`);
+  }
+  return notes;
+};
+
+const centsBetween = (a: number, b: number) => 1200 * Math.log2(a / b);
+
+describe('detectPitch', () => {
+  it.each([
+    ['low E (E2)', 82.41],
+    ['A string (A2)', 110],
+    ['G string (G3)', 196],
+    ['high E (E4)', 329.63],
+    ['high E 12th fret (E5)', 659.26],
+    ['high E 22nd fret (D6)', 1174.66]
+  ])('finds %s within a few cents', (_, frequency) => {
+    const detected = detectPitch(sine(frequency), SAMPLE_RATE);
+    expect(detected).not.toBeNull();
+    expect(Math.abs(centsBetween(detected!, frequency))).toBeLessThan(5);
+  });
+
+  it('finds the low B of a 5-string bass', () => {
+    const detected = detectPitch(sine(30.87), SAMPLE_RATE);
+    expect(detected).not.toBeNull();
+    expect(frequencyToPitch(detected!).note).toEqual({ noteName: 'B', octave: 0 });
+  });
+
+  it('returns null for silence', () => {
+    expect(detectPitch(new Float32Array(FRAME_SIZE), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('returns null for noise', () => {
+    const random = createRandom(42);
+    const noise = new Float32Array(FRAME_SIZE).map(() => random() * 0.5);
+    expect(detectPitch(noise, SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('frequencyToPitch', () => {
+  it('names the nearest pitch and the cents off it', () => {
+    expect(frequencyToPitch(440)).toMatchObject({ midiNumber: 69, note: { noteName: 'A', octave: 4 }, cents: 0 });
+    expect(frequencyToPitch(82.41).note).toEqual({ noteName: 'E', octave: 2 });
+    expect(frequencyToPitch(445).cents).toBe(20);
+  });
+});
+
+describe('createNoteOnsetTracker', () => {
+  const silence = (seconds: number) => new Float32Array(Math.round(SAMPLE_RATE * seconds));
+
+  it('reports a plucked string once while it rings', () => {
+    expect(track(concat(silence(0.2), pluck(110, 1.5)))).toEqual(['A2']);
+  });
+
+  it('reports each pluck of a sequence once', () => {
+    const recording = concat(silence(0.2), pluck(110, 1), silence(0.3), pluck(196, 1, 2), silence(0.3), pluck(82.41, 1, 3));
+    expect(track(recording)).toEqual(['A2', 'G3', 'E2']);
+  });
+
+  it('reports nothing for silence', () => {
+    expect(track(silence(1))).toEqual([]);
+  });
+});
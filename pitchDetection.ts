@@ -0,0 +1,231 @@
+import { NOTES_SHARP, StaffNoteData, fretboardToStaffNote } from "./constants";
+import { getAudioContext, getNoteFrequency } from "./audio";
+
+// ============================================================================
+// PITCH DETECTION (YIN)
+// The detector and onset tracker are pure functions of sample buffers, so they can be
+// exercised offline with synthesized sines/plucks; only the microphone listener needs a browser
+// ============================================================================
+
+export const YIN_THRESHOLD = 0.15;
+const MIN_FREQUENCY = 28;   // Below the low B of a 5-string bass (B0, 31 Hz)
+const MAX_FREQUENCY = 1500; // Above the 24th fret of the high E string
+
+export interface DetectedPitch {
+  frequency: number;
+  midiNumber: number;  // Nearest equal-tempered pitch as a MIDI note number
+  note: StaffNoteData; // Nearest equal-tempered pitch, sharp spelling
+  cents: number;       // How far the frequency is from that pitch (-50..50)
+}
+
+/**
+ * Estimates the fundamental frequency of a buffer with the YIN algorithm
+ * @param buffer Mono samples, at least two periods of the lowest expected pitch
+ * @param sampleRate Samples per second
+ * @param threshold Aperiodicity cut-off; lower is stricter
+ * @returns Frequency in Hz, or null when no clear pitch is present
+ */
+export const detectPitch = (buffer: Float32Array, sampleRate: number, threshold: number = YIN_THRESHOLD): number | null => {
+  const halfLength = Math.floor(buffer.length / 2);
+  const minTau = Math.max(2, Math.floor(sampleRate / MAX_FREQUENCY));
+  const maxTau = Math.min(halfLength - 1, Math.ceil(sampleRate / MIN_FREQUENCY));
+  if (maxTau <= minTau) return null;
+
+  // Difference function, normalised by its running mean so tau = 0 is not the trivial minimum
+  const normalized = new Float32Array(maxTau + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let difference = 0;
+    for (let i = 0; i < halfLength; i++) {
+      const delta = buffer[i] - buffer[i + tau];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[tau] = runningSum === 0 ? 1 : difference * tau / runningSum;
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let tau = minTau;
+  while (tau <= maxTau && normalized[tau] >= threshold) tau++;
+  if (tau > maxTau) return null;
+  while (tau + 1 <= maxTau && normalized[tau + 1] < normalized[tau]) tau++;
+
+  // Parabolic interpolation between neighbouring lags for sub-sample accuracy
+  let refinedTau = tau;
+  if (tau > 1 && tau < maxTau) {
+    const previous = normalized[tau - 1];
+    const current = normalized[tau];
+    const next = normalized[tau + 1];
+    const denominator = previous + next - 2 * current;
+    if (denominator !== 0) {
+      refinedTau = tau + (previous - next) / (2 * denominator);
+    }
+  }
+
+  return sampleRate / refinedTau;
+};
+
+/**
+ * Nearest equal-tempered pitch to a frequency (A4 = 440)
+ */
+export const frequencyToPitch = (frequency: number): DetectedPitch => {
+  const midiExact = 69 + 12 * Math.log2(frequency / 440);
+  const midiNumber = Math.round(midiExact);
+  return {
+    frequency,
+    midiNumber,
+    note: { noteName: NOTES_SHARP[((midiNumber % 12) + 12) % 12], octave: Math.floor(midiNumber / 12) - 1 },
+    cents: Math.round((midiExact - midiNumber) * 100)
+  };
+};
+
+/**
+ * Root-mean-square level of a buffer
+ */
+export const getRms = (buffer: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return buffer.length > 0 ? Math.sqrt(sum / buffer.length) : 0;
+};
+
+export interface OnsetTrackerOptions {
+  minRms?: number;       // Quieter frames are treated as silence
+  onsetRatio?: number;   // Level jump over the previous frame that counts as a new attack
+  stableFrames?: number; // Consecutive frames that must agree on the pitch before it is reported
+}
+
+/**
+ * Turns a stream of analysis frames into played notes: each attack is reported once, after its
+ * pitch has settled, so a string still ringing from the last round is never reported again
+ * @returns Feed function: call with every frame, returns the pitch when a new note is confirmed
+ */
+export const createNoteOnsetTracker = ({ minRms = 0.01, onsetRatio = 1.5, stableFrames = 3 }: OnsetTrackerOptions = {}) => {
+  let previousRms = 0;
+  let awaitingPitch = false;
+  let candidate: number | null = null;
+  let candidateFrames = 0;
+
+  return (frame: Float32Array, sampleRate: number): DetectedPitch | null => {
+    const rms = getRms(frame);
+    const isOnset = rms >= minRms && rms > previousRms * onsetRatio;
+    previousRms = rms;
+
+    if (isOnset) {
+      awaitingPitch = true;
+      candidate = null;
+      candidateFrames = 0;
+    }
+    if (!awaitingPitch || rms < minRms) return null;
+
+    const frequency = detectPitch(frame, sampleRate);
+    if (frequency === null) return null;
+
+    const pitch = frequencyToPitch(frequency);
+    if (pitch.midiNumber === candidate) {
+      candidateFrames++;
+    } else {
+      candidate = pitch.midiNumber;
+      candidateFrames = 1;
+    }
+
+    if (candidateFrames >= stableFrames) {
+      awaitingPitch = false;
+      return pitch;
+    }
+    return null;
+  };
+};
+
+export interface StringDeviation {
+  stringIndex: number;
+  targetFrequency: number;
+  cents: number; // Positive when sharp of the open string
+}
+
+/**
+ * Cents from a target frequency (positive when above it)
+ */
+export const getCentsOff = (frequency: number, targetFrequency: number): number => {
+  return 1200 * Math.log2(frequency / targetFrequency);
+};
+
+/**
+ * Open string a frequency is closest to, for tuning
+ * @param frequency Detected frequency in Hz
+ * @param tuning Open string offsets in semitones from E2, low string first
+ * @param stringIndex Measure against this string instead of the nearest one
+ */
+export const findNearestString = (frequency: number, tuning: number[], stringIndex?: number): StringDeviation => {
+  const deviations = tuning.map((offset, index) => {
+    const targetFrequency = getNoteFrequency(fretboardToStaffNote(offset, 0));
+    return { stringIndex: index, targetFrequency, cents: getCentsOff(frequency, targetFrequency) };
+  });
+  if (stringIndex !== undefined && deviations[stringIndex]) return deviations[stringIndex];
+  return deviations.reduce((best, d) => Math.abs(d.cents) < Math.abs(best.cents) ? d : best);
+};
+
+const ANALYSIS_FFT_SIZE = 4096;
+const ANALYSIS_INTERVAL_MS = 50;
+
+/**
+ * Feeds microphone frames to a callback every analysis interval
+ * @returns Stops listening and releases the microphone
+ */
+const startMicrophoneAnalysis = async (onFrame: (frame: Float32Array, sampleRate: number) => void): Promise<() => void> => {
+  const context = getAudioContext();
+  if (!context || !navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Microphone input is not supported in this browser');
+  }
+
+  // Processing meant for speech smears the attack and pitch of a guitar
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+  });
+
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = ANALYSIS_FFT_SIZE;
+  source.connect(analyser);
+
+  const frame = new Float32Array(analyser.fftSize);
+  const intervalId = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(frame);
+    onFrame(frame, context.sampleRate);
+  }, ANALYSIS_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(intervalId);
+    source.disconnect();
+    stream.getTracks().forEach(t => t.stop());
+  };
+};
+
+/**
+ * Listens to the microphone and reports every note played
+ * @param onNote Called once per confirmed note
+ * @returns Stops listening and releases the microphone
+ * @throws When the microphone is unavailable or permission is denied
+ */
+export const startMicrophonePitchListener = (onNote: (pitch: DetectedPitch) => void): Promise<() => void> => {
+  const track = createNoteOnsetTracker();
+  return startMicrophoneAnalysis((frame, sampleRate) => {
+    const pitch = track(frame, sampleRate);
+    if (pitch) onNote(pitch);
+  });
+};
+
+/**
+ * Listens to the microphone and reports the frequency of every frame, for the tuner
+ * @param onFrequency Called every analysis interval; null when nothing clear is sounding
+ * @returns Stops listening and releases the microphone
+ * @throws When the microphone is unavailable or permission is denied
+ */
+export const startMicrophoneFrequencyListener = (
+  onFrequency: (frequency: number | null) => void,
+  minRms: number = 0.01
+): Promise<() => void> => {
+  return startMicrophoneAnalysis((frame, sampleRate) => {
+    onFrequency(getRms(frame) >= minRms ? detectPitch(frame, sampleRate) : null);
+  });
+};
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NoteStat } from './types';
+import { DAY_MS, DEFAULT_EASE, getReviewGrade, getReviewPriority, scheduleReview, selectNextReview } from './scheduler';
+
+const NOW = Date.UTC(2026, 0, 1);
+const MINUTE_MS = 60 * 1000;
+
+const stat = (schedule: Partial<NoteStat> = {}): NoteStat => ({
+  correct: 0, incorrect: 0, timeouts: 0, totalTimeMs: 0, lastSeen: NOW, ...schedule
+});
+
+// Answers an item with the same grade each time it falls due
+const reviewRepeatedly = (grade: number, times: number): NoteStat => {
+  let current: NoteStat | undefined;
+  let now = NOW;
+  for (let i = 0; i < times; i++) {
+    current = { ...stat(), ...current, ...scheduleReview(current, grade, now) };
+    now = current.dueAt!;
+  }
+  return current!;
+};
+
+describe('getReviewGrade', () => {
+  it('grades misses below 3', () => {
+    expect(getReviewGrade(false, 500, true)).toBe(0);
+    expect(getReviewGrade(false, 500, false)).toBe(1);
+  });
+
+  it('grades correct answers by speed', () => {
+    expect(getReviewGrade(true, 1500, false)).toBe(5);
+    expect(getReviewGrade(true, 1501, false)).toBe(4);
+    expect(getReviewGrade(true, 4000, false)).toBe(4);
+    expect(getReviewGrade(true, 4001, false)).toBe(3);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('schedules a new item one day out', () => {
+    expect(scheduleReview(undefined, 5, NOW)).toEqual({ ease: DEFAULT_EASE + 0.1, intervalDays: 1, repetitions: 1, dueAt: NOW + DAY_MS });
+  });
+
+  it('grows the interval 1, 6, then interval x ease', () => {
+    expect(reviewRepeatedly(4, 1).intervalDays).toBe(1);
+    expect(reviewRepeatedly(4, 2).intervalDays).toBe(6);
+    const third = reviewRepeatedly(4, 3);
+    expect(third.intervalDays).toBe(Math.round(6 * third.ease!));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('lowers the ease on hard answers but not below 1.3', () => {
+    expect(reviewRepeatedly(3, 1).ease).toBeCloseTo(DEFAULT_EASE - 0.14);
+    expect(reviewRepeatedly(3, 20).ease).toBe(1.3);
+    expect(scheduleReview(stat({ ease: 1.3, intervalDays: 6, repetitions: 2, dueAt: NOW }), 0, NOW).ease).toBe(1.3);
+  });
+
+  it('resets a missed item to relearn in 10 minutes', () => {
+    const learned = stat({ ease: 2.5, intervalDays: 15, repetitions: 3, dueAt: NOW + 5 * DAY_MS });
+    expect(scheduleReview(learned, 1, NOW)).toEqual({ ease: 2.3, intervalDays: 0, repetitions: 0, dueAt: NOW + 10 * MINUTE_MS });
+  });
+
+  it('leaves the schedule alone on a correct answer before the item is due', () => {
+    const learned = stat({ ease: 2.5, intervalDays: 6, repetitions: 2, dueAt: NOW + DAY_MS });
+    expect(scheduleReview(learned, 5, NOW)).toEqual({ ease: 2.5, intervalDays: 6, repetitions: 2, dueAt: NOW + DAY_MS });
+  });
+});
+
+describe('getReviewPriority', () => {
+  it('puts overdue items first, then unscheduled ones, then those not yet due', () => {
+    const overdue = getReviewPriority(stat({ intervalDays: 1, dueAt: NOW - DAY_MS }), NOW);
+    const unscheduled = getReviewPriority(undefined, NOW);
+    const dueSoon = getReviewPriority(stat({ intervalDays: 1, dueAt: NOW + MINUTE_MS }), NOW);
+    const dueLater = getReviewPriority(stat({ intervalDays: 6, dueAt: NOW + 6 * DAY_MS }), NOW);
+    expect(overdue).toBeGreaterThan(unscheduled);
+    expect(unscheduled).toBeGreaterThan(dueSoon);
+    expect(dueSoon).toBeGreaterThan(dueLater);
+  });
+
+  it('ranks overdue items by how late they are relative to their interval', () => {
+    const dayLateOnDailyItem = getReviewPriority(stat({ intervalDays: 1, dueAt: NOW - DAY_MS }), NOW);
+    const dayLateOnWeeklyItem = getReviewPriority(stat({ intervalDays: 7, dueAt: NOW - DAY_MS }), NOW);
+    expect(dayLateOnDailyItem).toBeGreaterThan(dayLateOnWeeklyItem);
+  });
+});
+
+describe('selectNextReview', () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('returns null without candidates', () => {
+    expect(selectNextReview([], () => undefined, NOW)).toBeNull();
+  });
+
+  it('picks the most urgent candidate', () => {
+    const stats: Record<string, NoteStat | undefined> = {
+      later: stat({ intervalDays: 6, dueAt: NOW + DAY_MS }),
+      overdue: stat({ intervalDays: 1, dueAt: NOW - DAY_MS }),
+      fresh: undefined
+    };
+    expect(selectNextReview(Object.keys(stats), key => stats[key], NOW)).toBe('overdue');
+  });
+
+  it('breaks ties at random among the most urgent', () => {
+    const stats: Record<string, NoteStat | undefined> = { a: undefined, b: undefined, later: stat({ dueAt: NOW + DAY_MS }) };
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(selectNextReview(Object.keys(stats), key => stats[key], NOW)).toBe('a');
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    expect(selectNextReview(Object.keys(stats), key => stats[key], NOW)).toBe('b');
+  });
+});
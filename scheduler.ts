@@ -0,0 +1,93 @@
+import { NoteStat } from "./types";
+
+// ============================================================================
+// SPACED REPETITION (SM-2)
+// Pure functions of a NoteStat and the current time, so the schedule can be
+// replayed and checked without the app
+// ============================================================================
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // A missed item comes back this much later, usually in the same session
+const FAST_ANSWER_MS = 1500;
+const SLOW_ANSWER_MS = 4000;
+
+export type ReviewSchedule = Required<Pick<NoteStat, 'ease' | 'intervalDays' | 'repetitions' | 'dueAt'>>;
+
+/**
+ * SM-2 quality of a single answer (0-5): misses below 3, correct answers graded by speed
+ */
+export const getReviewGrade = (isCorrect: boolean, timeTakenMs: number, isTimeout: boolean): number => {
+  if (isTimeout) return 0;
+  if (!isCorrect) return 1;
+  if (timeTakenMs <= FAST_ANSWER_MS) return 5;
+  if (timeTakenMs <= SLOW_ANSWER_MS) return 4;
+  return 3;
+};
+
+/**
+ * Next review of an item after an answer
+ * Correct answers given before the item was due leave its schedule alone (drilling an item
+ * several times in one sitting is not evidence it will be remembered for days); misses always reset it
+ * @param stat The item's stats before this answer (undefined for a new item)
+ * @param grade Quality from getReviewGrade
+ * @param now Time of the answer
+ */
+export const scheduleReview = (stat: NoteStat | undefined, grade: number, now: number): ReviewSchedule => {
+  const ease = stat?.ease ?? DEFAULT_EASE;
+  const intervalDays = stat?.intervalDays ?? 0;
+  const repetitions = stat?.repetitions ?? 0;
+
+  if (grade < 3) {
+    return { ease: Math.max(MIN_EASE, ease - 0.2), intervalDays: 0, repetitions: 0, dueAt: now + RELEARN_DELAY_MS };
+  }
+
+  if (stat?.dueAt !== undefined && now < stat.dueAt) {
+    return { ease, intervalDays, repetitions, dueAt: stat.dueAt };
+  }
+
+  const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+  const nextInterval = repetitions === 0 ? 1
+    : repetitions === 1 ? 6
+    : Math.round(intervalDays * nextEase);
+
+  return { ease: nextEase, intervalDays: nextInterval, repetitions: repetitions + 1, dueAt: now + nextInterval * DAY_MS };
+};
+
+/**
+ * How urgently an item should be asked: due items first (the longer overdue relative to
+ * their interval, the sooner), then items never scheduled, then the rest by how soon they fall due
+ */
+export const getReviewPriority = (stat: NoteStat | undefined, now: number): number => {
+  if (stat?.dueAt === undefined) return 1;
+
+  const untilDue = stat.dueAt - now;
+  if (untilDue <= 0) {
+    const scale = stat.intervalDays && stat.intervalDays > 0 ? stat.intervalDays * DAY_MS : RELEARN_DELAY_MS;
+    return 2 + (-untilDue / scale);
+  }
+  return 1 - untilDue / (untilDue + DAY_MS);
+};
+
+/**
+ * The item to ask next: highest priority, ties broken at random
+ * @param items Candidates
+ * @param getStat Stats of a candidate, undefined if never asked
+ */
+export const selectNextReview = <T>(items: T[], getStat: (item: T) => NoteStat | undefined, now: number): T | null => {
+  let best: T[] = [];
+  let bestPriority = -Infinity;
+
+  items.forEach(item => {
+    const priority = getReviewPriority(getStat(item), now);
+    if (priority > bestPriority) {
+      bestPriority = priority;
+      best = [item];
+    } else if (priority === bestPriority) {
+      best.push(item);
+    }
+  });
+
+  return best.length > 0 ? best[Math.floor(Math.random() * best.length)] : null;
+};
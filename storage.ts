@@ -0,0 +1,447 @@
+import { ServerCounts, SyncOutbox, SyncSettings, EMPTY_OUTBOX } from "./sync";
+import { AccidentalStyle, Difficulty, GameConfig, GameMode, GuitarProfile, LearnerProfile, NoteInteraction, NoteStat, NoteStatsMap, ScoreRecord } from "./types";
+
+// ============================================================================
+// PERSISTENCE (versioned localStorage)
+// Every read goes through validation: entries that cannot be repaired are moved
+// to a quarantine key rather than dropped, so nothing is lost silently
+// ============================================================================
+
+export const STORAGE_SCHEMA_VERSION = 2;
+
+const SCHEMA_VERSION_KEY = 'fretmaster_schema_version';
+const QUARANTINE_KEY = 'fretmaster_quarantine';
+const MAX_QUARANTINED = 50;
+const LEARNERS_KEY = 'fretmaster_learners';
+const ACTIVE_LEARNER_KEY = 'fretmaster_active_learner';
+
+export const DEFAULT_LEARNER_ID = 'default';
+
+// Tuning assumed for records saved before the tuning was stored with them
+const LEGACY_TUNING_NAME = 'Standard (EADGBE)';
+
+export interface StoredData {
+  history: ScoreRecord[]; // In IndexedDB (historyDb.ts); the localStorage key only holds histories not yet moved there
+  noteStats: NoteStatsMap;
+  intervalStats: NoteStatsMap;
+  staffStats: NoteStatsMap;
+  guitars: GuitarProfile[];
+  activeGuitarId: string | null;
+  gameConfig: Partial<GameConfig> | null;
+  accidentalPreference: AccidentalStyle | null;
+  syncSettings: SyncSettings | null; // Null until a sync server is set up
+  syncOutbox: SyncOutbox;            // Changes not yet pushed to the sync server
+  syncedCounts: Record<string, ServerCounts>; // Per sync endpoint, the stat counts its server last reported; kept after disconnecting
+}
+
+export interface QuarantinedEntry {
+  key: string;
+  reason: string;
+  value: unknown;
+  quarantinedAt: number;
+}
+
+// --- Validation (shared with backup import) ---
+// Validators are type guards: they add what is wrong with a value to `errors` and pass it when nothing is
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const validateInteraction = (value: unknown, path: string, errors: string[] = []): value is NoteInteraction => {
+  if (!isObject(value)) {
+    errors.push(`${path} is not an object`);
+    return false;
+  }
+  const found = errors.length;
+  if (typeof value.isCorrect !== 'boolean') errors.push(`${path}.isCorrect must be true or false`);
+  if (typeof value.isTimeout !== 'boolean') errors.push(`${path}.isTimeout must be true or false`);
+  if (!isFiniteNumber(value.timeTakenMs)) errors.push(`${path}.timeTakenMs must be a number`);
+  if (!isFiniteNumber(value.timestamp)) errors.push(`${path}.timestamp must be a number`);
+  if (value.note !== undefined) {
+    const note = value.note;
+    if (!isObject(note) || !isFiniteNumber(note.stringIndex) || !isFiniteNumber(note.fretIndex) || typeof note.noteName !== 'string') {
+      errors.push(`${path}.note must have stringIndex, fretIndex and noteName`);
+    }
+  }
+  if (value.answer !== undefined && typeof value.answer !== 'string') errors.push(`${path}.answer must be text`);
+  return errors.length === found;
+};
+
+// A record's own fields; its interactions are checked one by one and its average time may be missing
+type RecordFields = Omit<ScoreRecord, 'interactions' | 'avgTimeSeconds'> & { interactions?: unknown; avgTimeSeconds?: unknown };
+
+const validateRecordFields = (value: unknown, path: string, errors: string[] = []): value is RecordFields => {
+  if (!isObject(value)) {
+    errors.push(`${path} is not an object`);
+    return false;
+  }
+  const found = errors.length;
+  if (typeof value.date !== 'string' || Number.isNaN(Date.parse(value.date))) errors.push(`${path}.date must be a date`);
+  if (!isFiniteNumber(value.score)) errors.push(`${path}.score must be a number`);
+  if (!Object.values(Difficulty).includes(value.difficulty as Difficulty)) errors.push(`${path}.difficulty is not a known difficulty`);
+  if (!isFiniteNumber(value.maxFret)) errors.push(`${path}.maxFret must be a number`);
+  if (value.gameMode !== undefined && !Object.values(GameMode).includes(value.gameMode as GameMode)) {
+    errors.push(`${path}.gameMode is not a known game mode`);
+  }
+  // Records from before interactions were logged have none
+  if (value.interactions !== undefined && !Array.isArray(value.interactions)) errors.push(`${path}.interactions must be a list`);
+  return errors.length === found;
+};
+
+export const validateScoreRecord = (value: unknown, path: string, errors: string[] = []): value is ScoreRecord => {
+  const found = errors.length;
+  if (validateRecordFields(value, path, errors) && Array.isArray(value.interactions)) {
+    value.interactions.forEach((interaction, i) => validateInteraction(interaction, `${path}.interactions[${i}]`, errors));
+  }
+  return errors.length === found;
+};
+
+export const validateNoteStat = (value: unknown, path: string, errors: string[] = []): value is NoteStat => {
+  if (isObject(value) && isFiniteNumber(value.correct) && isFiniteNumber(value.incorrect) && isFiniteNumber(value.timeouts)) return true;
+  errors.push(`${path} is not a stat entry`);
+  return false;
+};
+
+export const validateGuitar = (value: unknown, path: string, errors: string[] = []): value is GuitarProfile => {
+  if (isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && Array.isArray(value.tuning)
+    && value.tuning.length > 0 && value.tuning.every(isFiniteNumber)) return true;
+  errors.push(`${path} must have an id, a name and a tuning`);
+  return false;
+};
+
+const validateSyncOutbox = (value: unknown): value is SyncOutbox =>
+  isObject(value) && Array.isArray(value.sessionDates) && isObject(value.stats) && isObject(value.guitars);
+
+const validateSyncedCounts = (value: unknown): value is Record<string, ServerCounts> =>
+  isObject(value) && Object.values(value).every(isObject);
+
+// --- Quarantine ---
+
+const quarantine = (storage: Storage, key: string, reason: string, value: unknown) => {
+  console.error(`Quarantined corrupt entry in ${key}: ${reason}`);
+  const entries = getQuarantine(storage);
+  entries.push({ key, reason, value, quarantinedAt: Date.now() });
+  try {
+    storage.setItem(QUARANTINE_KEY, JSON.stringify(entries.slice(-MAX_QUARANTINED)));
+  } catch (e) {
+    console.error("Failed to save quarantined entry", e);
+  }
+};
+
+/**
+ * Entries set aside because they could not be read or repaired, oldest first
+ */
+export const getQuarantine = (storage: Storage = localStorage): QuarantinedEntry[] => {
+  const saved = storage.getItem(QUARANTINE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// --- Learner profiles ---
+
+// Learner whose data loadStored/saveStored read and write
+let activeLearnerId = DEFAULT_LEARNER_ID;
+
+// Every StoredData key is kept once per learner
+const getLearnerKey = (key: string, learnerId: string = activeLearnerId) => `${key}:${learnerId}`;
+
+export const getActiveLearnerId = (): string => activeLearnerId;
+
+/**
+ * Every learner on this device; a device that has none yet gets the default learner, which owns data saved before profiles
+ */
+export const loadLearners = (storage: Storage = localStorage): LearnerProfile[] => {
+  const saved = storage.getItem(LEARNERS_KEY);
+  if (saved !== null) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        const learners = parsed.filter(learner => isObject(learner) && typeof learner.id === 'string' && typeof learner.name === 'string');
+        if (learners.length > 0) return learners as LearnerProfile[];
+      }
+    } catch { /* Quarantined below */ }
+    quarantine(storage, LEARNERS_KEY, 'Unexpected shape', saved);
+  }
+  return [{ id: DEFAULT_LEARNER_ID, name: 'Default', createdAt: Date.now() }];
+};
+
+export const saveLearners = (learners: LearnerProfile[], storage: Storage = localStorage): void => {
+  storage.setItem(LEARNERS_KEY, JSON.stringify(learners));
+};
+
+/**
+ * Switches which learner's data is read and written, remembering the choice for the next visit
+ */
+export const setActiveLearner = (learnerId: string, storage: Storage = localStorage): void => {
+  activeLearnerId = learnerId;
+  storage.setItem(ACTIVE_LEARNER_KEY, learnerId);
+};
+
+/**
+ * Picks up the learner chosen on the last visit (the first learner if that one is gone)
+ */
+export const restoreActiveLearner = (storage: Storage = localStorage): string => {
+  const learners = loadLearners(storage);
+  const saved = storage.getItem(ACTIVE_LEARNER_KEY);
+  activeLearnerId = learners.some(learner => learner.id === saved) ? saved! : learners[0].id;
+  return activeLearnerId;
+};
+
+/**
+ * Removes everything a learner has in localStorage (their history in IndexedDB is removed by historyDb)
+ */
+export const removeLearnerData = (learnerId: string, storage: Storage = localStorage): void => {
+  Object.values(STORES).forEach(store => storage.removeItem(getLearnerKey(store.key, learnerId)));
+};
+
+// --- Stores ---
+
+// How one StoredData field is kept: JSON or a plain string, and how a read value is repaired.
+// repair reports what it could not keep; returning null rejects the whole value
+interface Store<T> {
+  key: string;
+  raw?: boolean;
+  fallback: T;
+  repair: (value: unknown, reject: (reason: string, value: unknown) => void) => T | null;
+}
+
+const repairInteractions = (interactions: unknown[], path: string, reject: (reason: string, value: unknown) => void): NoteInteraction[] =>
+  interactions.filter((interaction, i): interaction is NoteInteraction => {
+    const errors: string[] = [];
+    if (validateInteraction(interaction, `${path}.interactions[${i}]`, errors)) return true;
+    reject(errors.join('; '), interaction);
+    return false;
+  });
+
+const repairHistory = (value: unknown, reject: (reason: string, value: unknown) => void): ScoreRecord[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value.flatMap((record, i): ScoreRecord[] => {
+    const path = `history[${i}]`;
+    const errors: string[] = [];
+    if (!validateRecordFields(record, path, errors)) {
+      reject(errors.join('; '), record);
+      return [];
+    }
+    return [{
+      ...record,
+      interactions: Array.isArray(record.interactions) ? repairInteractions(record.interactions, path, reject) : [],
+      avgTimeSeconds: isFiniteNumber(record.avgTimeSeconds) ? record.avgTimeSeconds : 0
+    }];
+  });
+};
+
+const repairStats = (name: string) => (value: unknown, reject: (reason: string, value: unknown) => void): NoteStatsMap | null => {
+  if (!isObject(value)) return null;
+  const stats: NoteStatsMap = {};
+  Object.entries(value).forEach(([key, stat]) => {
+    const errors: string[] = [];
+    if (validateNoteStat(stat, `${name}["${key}"]`, errors)) stats[key] = { totalTimeMs: 0, lastSeen: 0, ...stat };
+    else reject(errors[0], { [key]: stat });
+  });
+  return stats;
+};
+
+const STORES: { [K in keyof StoredData]: Store<StoredData[K]> } = {
+  history: { key: 'fretmaster_history', fallback: [], repair: repairHistory },
+  noteStats: { key: 'fretmaster_note_stats', fallback: {}, repair: repairStats('noteStats') },
+  intervalStats: { key: 'fretmaster_interval_stats', fallback: {}, repair: repairStats('intervalStats') },
+  staffStats: { key: 'fretmaster_staff_stats', fallback: {}, repair: repairStats('staffStats') },
+  guitars: {
+    key: 'fretmaster_guitars',
+    fallback: [],
+    repair: (value, reject) => {
+      if (!Array.isArray(value)) return null;
+      return value.filter((guitar, i): guitar is GuitarProfile => {
+        const errors: string[] = [];
+        if (validateGuitar(guitar, `guitars[${i}]`, errors)) return true;
+        reject(errors[0], guitar);
+        return false;
+      });
+    }
+  },
+  activeGuitarId: { key: 'fretmaster_active_guitar', raw: true, fallback: null, repair: value => value as string },
+  gameConfig: { key: 'fretmaster_game_config', fallback: null, repair: value => (isObject(value) ? value as Partial<GameConfig> : null) },
+  accidentalPreference: {
+    key: 'fretmaster_accidental_pref',
+    raw: true,
+    fallback: null,
+    repair: value => (value === 'FLAT' || value === 'SHARP' ? value : null)
+  },
+  syncSettings: {
+    key: 'fretmaster_sync_settings',
+    fallback: null,
+    repair: value => (isObject(value) && typeof value.endpoint === 'string' && typeof value.deviceId === 'string' && isFiniteNumber(value.cursor)
+      ? { token: '', lastSyncedAt: null, ...value } as SyncSettings
+      : null)
+  },
+  syncOutbox: {
+    key: 'fretmaster_sync_outbox',
+    fallback: EMPTY_OUTBOX,
+    repair: value => (validateSyncOutbox(value) ? value : null)
+  },
+  syncedCounts: { key: 'fretmaster_synced_counts', fallback: {}, repair: value => (validateSyncedCounts(value) ? value : null) }
+};
+
+/**
+ * Reads one stored value, repairing what it can and quarantining the rest
+ * @returns The value, or the store's fallback when nothing is saved or nothing usable was found
+ */
+export const loadStored = <K extends keyof StoredData>(name: K, storage: Storage = localStorage): StoredData[K] => {
+  const store = STORES[name] as Store<StoredData[K]>;
+  const key = getLearnerKey(store.key);
+  const saved = storage.getItem(key);
+  if (saved === null) return store.fallback;
+
+  let value: unknown = saved;
+  if (!store.raw) {
+    try {
+      value = JSON.parse(saved);
+    } catch {
+      quarantine(storage, key, 'Not valid JSON', saved);
+      storage.removeItem(key);
+      return store.fallback;
+    }
+  }
+
+  let rejected = 0;
+  const repaired = store.repair(value, (reason, entry) => {
+    rejected++;
+    quarantine(storage, key, reason, entry);
+  });
+
+  if (repaired === null) {
+    quarantine(storage, key, 'Unexpected shape', value);
+    storage.removeItem(key);
+    return store.fallback;
+  }
+  // Save the repaired value so the same entries are not quarantined again on the next load
+  if (rejected > 0) saveStored(name, repaired, storage);
+  return repaired;
+};
+
+export const saveStored = <K extends keyof StoredData>(name: K, value: StoredData[K], storage: Storage = localStorage): void => {
+  const store = STORES[name];
+  const key = getLearnerKey(store.key);
+  try {
+    if (value === null) storage.removeItem(key);
+    else storage.setItem(key, store.raw ? String(value) : JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key}`, e);
+  }
+};
+
+export const removeStored = (name: keyof StoredData, storage: Storage = localStorage): void => {
+  storage.removeItem(getLearnerKey(STORES[name].key));
+};
+
+/**
+ * Saved game config over the defaults; a field whose type no longer matches its default is quarantined
+ */
+export const loadGameConfig = (defaults: GameConfig, storage: Storage = localStorage): GameConfig => {
+  const saved = loadStored('gameConfig', storage);
+  if (!saved) return defaults;
+
+  const defaultValues: Record<string, unknown> = { ...defaults };
+  const fields = Object.entries(saved).filter(([field, value]) => {
+    const fallback = defaultValues[field];
+    // keyRoot is the one field that may be null
+    if (fallback === undefined || typeof value === typeof fallback || (field === 'keyRoot' && value === null)) return true;
+    quarantine(storage, getLearnerKey(STORES.gameConfig.key), `gameConfig.${field} has the wrong type`, value);
+    return false;
+  });
+  return { ...defaults, ...Object.fromEntries(fields) };
+};
+
+// --- Migrations ---
+
+// Each migration brings stored data from the previous version to `version`: `migrate` for the
+// localStorage keys, `migrateRecord` for each history session wherever it is kept (localStorage,
+// IndexedDB or a backup file). They may run again over migrated data, so they must be idempotent
+interface Migration {
+  version: number;
+  migrate?: (storage: Storage) => void;
+  migrateRecord?: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Stamp legacy records with the tuning they were played in, and fold the old adaptive learning key into the game config
+    version: 1,
+    migrate: storage => {
+      const legacyAdaptive = storage.getItem('fretmaster_adaptive_learning');
+      if (legacyAdaptive !== null) {
+        if (storage.getItem(STORES.gameConfig.key) === null) {
+          storage.setItem(STORES.gameConfig.key, JSON.stringify({ adaptiveLearning: legacyAdaptive === 'true' }));
+        }
+        storage.removeItem('fretmaster_adaptive_learning');
+      }
+    },
+    migrateRecord: record => (record.tuningName === undefined ? { ...record, tuningName: LEGACY_TUNING_NAME } : record)
+  },
+  {
+    // Learner profiles: data saved before them becomes the default learner's
+    version: 2,
+    migrate: storage => {
+      Object.values(STORES).forEach(({ key }) => {
+        const saved = storage.getItem(key);
+        if (saved === null) return;
+        const learnerKey = getLearnerKey(key, DEFAULT_LEARNER_ID);
+        if (storage.getItem(learnerKey) === null) storage.setItem(learnerKey, saved);
+        storage.removeItem(key);
+      });
+    }
+  }
+];
+
+/**
+ * History sessions saved at `fromVersion`, brought up to STORAGE_SCHEMA_VERSION
+ */
+export const migrateRecords = (records: unknown[], fromVersion: number): unknown[] =>
+  MIGRATIONS
+    .filter(migration => migration.version > fromVersion && migration.migrateRecord)
+    .reduce((current, migration) => current.map(record => (isObject(record) ? migration.migrateRecord!(record) : record)), records);
+
+export const getStoredSchemaVersion = (storage: Storage = localStorage): number => {
+  const saved = Number(storage.getItem(SCHEMA_VERSION_KEY));
+  return Number.isInteger(saved) && saved > 0 ? saved : 0;
+};
+
+/**
+ * Brings stored data up to STORAGE_SCHEMA_VERSION. Data written by a newer version is left untouched
+ * @param fromVersion Version the data is at, if not the one stored (e.g. after restoring an older backup)
+ */
+export const runMigrations = (storage: Storage = localStorage, fromVersion: number = getStoredSchemaVersion(storage)): void => {
+  if (fromVersion > STORAGE_SCHEMA_VERSION) {
+    console.warn(`Stored data is from a newer version (schema ${fromVersion}); not migrating`);
+    return;
+  }
+  for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+    try {
+      migration.migrate?.(storage);
+      // Histories still in localStorage (not yet moved to IndexedDB), before or after they were kept per learner;
+      // left alone if unreadable, for loadStored to quarantine
+      const historyKeys = Array.from({ length: storage.length }, (_, i) => storage.key(i))
+        .filter((key): key is string => key === STORES.history.key || !!key?.startsWith(`${STORES.history.key}:`));
+      historyKeys.forEach(key => {
+        if (!migration.migrateRecord) return;
+        let history: unknown;
+        try { history = JSON.parse(storage.getItem(key)!); } catch { history = null; }
+        if (Array.isArray(history)) {
+          storage.setItem(key, JSON.stringify(history.map(record => (isObject(record) ? migration.migrateRecord!(record) : record))));
+        }
+      });
+    } catch (e) {
+      // Stop here so the failed step is retried on the next load
+      console.error(`Storage migration to version ${migration.version} failed`, e);
+      return;
+    }
+    storage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+  }
+};
@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GameMode, GuitarProfile, NoteInteraction, NoteStat, NoteStatsMap, ScoreRecord } from './types';
+import {
+  EMPTY_OUTBOX, SYNC_PROTOCOL_VERSION, ServerCounts, SyncOutbox, SyncRequest, SyncResponse, SyncSettings, SyncedGuitar,
+  applySyncResponse, buildSyncRequest, createSyncSettings, isOutboxEmpty, mergeGuitars, mergeSessions, queueAnswer,
+  queueEverything, queueGuitar, queueSession, removeSent, sendSyncRequest
+} from './sync';
+
+// --- A stand-in server speaking protocol 1, reached through the injected fetch ---
+
+interface Change<T> { cursor: number; value: T }
+
+const createServer = (token: string = 'secret') => {
+  let cursor = 0;
+  const sessions = new Map<string, Change<ScoreRecord>>();
+  const noteStats = new Map<string, Change<NoteStat>>();
+  const guitars = new Map<string, Change<SyncedGuitar>>();
+
+  const handle = (request: SyncRequest): SyncResponse => {
+    request.sessions.forEach(record => {
+      const existing = sessions.get(record.date)?.value;
+      const interactions = new Map<number, NoteInteraction>();
+      [...(existing?.interactions || []), ...record.interactions].forEach(i => interactions.set(i.timestamp, i));
+      sessions.set(record.date, { cursor: ++cursor, value: { ...record, interactions: Array.from(interactions.values()) } });
+    });
+    Object.entries(request.noteStats).forEach(([key, { delta, latest }]) => {
+      const existing = noteStats.get(key)?.value;
+      const schedule = existing && existing.lastSeen > latest.lastSeen ? existing : latest;
+      noteStats.set(key, {
+        cursor: ++cursor,
+        value: {
+          ...schedule,
+          correct: (existing?.correct || 0) + delta.correct,
+          incorrect: (existing?.incorrect || 0) + delta.incorrect,
+          timeouts: (existing?.timeouts || 0) + delta.timeouts,
+          totalTimeMs: (existing?.totalTimeMs || 0) + delta.totalTimeMs
+        }
+      });
+    });
+    request.guitars.forEach(guitar => {
+      const existing = guitars.get(guitar.profile.id)?.value;
+      if (!existing || guitar.updatedAt >= existing.updatedAt) guitars.set(guitar.profile.id, { cursor: ++cursor, value: guitar });
+    });
+
+    const since = <T>(changes: Map<string, Change<T>>) => Array.from(changes.entries()).filter(([, c]) => c.cursor > request.cursor);
+    return {
+      protocol: SYNC_PROTOCOL_VERSION,
+      cursor,
+      sessions: since(sessions).map(([, c]) => c.value),
+      noteStats: Object.fromEntries(since(noteStats).map(([key, c]) => [key, c.value])),
+      guitars: since(guitars).map(([, c]) => c.value)
+    };
+  };
+
+  const fetchFn = (async (_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>;
+    if (headers.Authorization !== `Bearer ${token}`) return new Response('', { status: 401 });
+    // Round-trip through JSON like a real server would
+    return new Response(JSON.stringify(handle(JSON.parse(init.body as string))), { status: 200 });
+  }) as typeof fetch;
+
+  return { fetchFn, stat: (key: string) => noteStats.get(key)?.value };
+};
+
+// --- A device: the parts of the app's state a sync reads and writes ---
+
+const KEY = 'Standard (EADGBE)-0-3';
+
+const createDevice = (server: ReturnType<typeof createServer>, token: string = 'secret') => {
+  const device = {
+    settings: createSyncSettings('https://sync.example/fretude', token) as SyncSettings,
+    outbox: EMPTY_OUTBOX as SyncOutbox,
+    history: [] as ScoreRecord[],
+    noteStats: {} as NoteStatsMap,
+    guitars: [] as GuitarProfile[],
+    serverCounts: {} as ServerCounts,
+
+    answer(key: string, isCorrect: boolean, timeTakenMs: number = 1000) {
+      const stat = device.noteStats[key] || { correct: 0, incorrect: 0, timeouts: 0, totalTimeMs: 0, lastSeen: 0 };
+      device.noteStats = {
+        ...device.noteStats,
+        [key]: { ...stat, correct: stat.correct + (isCorrect ? 1 : 0), incorrect: stat.incorrect + (isCorrect ? 0 : 1), totalTimeMs: stat.totalTimeMs + timeTakenMs, lastSeen: Date.now() }
+      };
+      device.outbox = queueAnswer(device.outbox, key, isCorrect, false, timeTakenMs);
+    },
+
+    // The app's sync effect: push, then apply what came back to the state as it is by then
+    async sync(duringRequest?: () => void) {
+      const { request, sent } = buildSyncRequest(device.settings, device.outbox, device.history, device.noteStats, device.guitars);
+      const responsePromise = sendSyncRequest(device.settings, request, server.fetchFn);
+      duringRequest?.();
+      const response = await responsePromise;
+      const { state, savedSessions } = applySyncResponse(device, sent, response, Date.now());
+      Object.assign(device, state);
+      return savedSessions;
+    },
+
+    // The app's connectSync
+    connect() {
+      device.settings = createSyncSettings(device.settings.endpoint, token);
+      device.outbox = queueEverything(device.history, device.noteStats, device.guitars, Date.now(), device.serverCounts);
+    }
+  };
+  return device;
+};
+
+const session = (date: string, interactions: NoteInteraction[] = []): ScoreRecord => ({
+  date, score: 1, difficulty: Difficulty.EASY, maxFret: 3, gameMode: GameMode.FRETBOARD_TO_NOTE, interactions, avgTimeSeconds: 1
+});
+
+const interaction = (timestamp: number, answer: string): NoteInteraction =>
+  ({ answer, isCorrect: answer === 'G', isTimeout: false, timeTakenMs: 1000, timestamp });
+
+const guitar = (id: string, name: string): GuitarProfile => ({ id, name, tuningName: 'Standard (EADGBE)', tuning: [0, 5, 10, 15, 19, 24] });
+
+describe('outbox', () => {
+  it('empties once a request has been stored', async () => {
+    const device = createDevice(createServer());
+    device.answer(KEY, true);
+    device.history = [session('2026-01-01T10:00:00.000Z')];
+    device.outbox = queueSession(device.outbox, device.history[0].date);
+    device.guitars = [guitar('g1', 'Strat')];
+    device.outbox = queueGuitar(device.outbox, 'g1', 1);
+
+    const { request } = buildSyncRequest(device.settings, device.outbox, device.history, device.noteStats, device.guitars);
+    expect(request.sessions).toHaveLength(1);
+    expect(request.noteStats[KEY].delta).toEqual({ correct: 1, incorrect: 0, timeouts: 0, totalTimeMs: 1000 });
+    expect(request.guitars.map(g => g.profile.id)).toEqual(['g1']);
+
+    await device.sync();
+    expect(isOutboxEmpty(device.outbox)).toBe(true);
+  });
+
+  it('leaves sessions that are not in history yet queued', () => {
+    const outbox = queueSession(EMPTY_OUTBOX, '2026-01-02T10:00:00.000Z');
+    const { request, sent } = buildSyncRequest(createSyncSettings('x', ''), outbox, [], {}, []);
+    expect(request.sessions).toEqual([]);
+    expect(removeSent(outbox, sent)).toEqual(outbox);
+  });
+
+  it('keeps answers queued while a request was in flight', async () => {
+    const server = createServer();
+    const device = createDevice(server);
+    device.answer(KEY, true);
+    await device.sync(() => device.answer(KEY, false, 3000));
+
+    expect(device.outbox.stats[KEY]).toEqual({ correct: 0, incorrect: 1, timeouts: 0, totalTimeMs: 3000 });
+    // The server's counts plus the answer it has not seen yet
+    expect(device.noteStats[KEY]).toMatchObject({ correct: 1, incorrect: 1, totalTimeMs: 4000 });
+    expect(server.stat(KEY)).toMatchObject({ correct: 1, incorrect: 0 });
+
+    await device.sync();
+    expect(isOutboxEmpty(device.outbox)).toBe(true);
+    expect(server.stat(KEY)).toMatchObject({ correct: 1, incorrect: 1, totalTimeMs: 4000 });
+  });
+});
+
+describe('two devices', () => {
+  it('build one set of stats from both devices’ answers', async () => {
+    const server = createServer();
+    const phone = createDevice(server);
+    const laptop = createDevice(server);
+    phone.answer(KEY, true);
+    phone.answer(KEY, true);
+    laptop.answer(KEY, false);
+
+    await phone.sync();
+    await laptop.sync();
+    await phone.sync();
+    expect(phone.noteStats[KEY]).toMatchObject({ correct: 2, incorrect: 1 });
+    expect(laptop.noteStats[KEY]).toMatchObject({ correct: 2, incorrect: 1 });
+  });
+
+  it('push only what a server lacks when connecting again', async () => {
+    const server = createServer();
+    const phone = createDevice(server);
+    const laptop = createDevice(server);
+    phone.answer(KEY, true);
+    await phone.sync();
+    laptop.answer(KEY, false);
+    await laptop.sync();
+    await phone.sync();
+
+    // Disconnected answers are not queued, but are still pushed on reconnecting
+    phone.outbox = EMPTY_OUTBOX;
+    phone.noteStats = { ...phone.noteStats, [KEY]: { ...phone.noteStats[KEY], correct: phone.noteStats[KEY].correct + 1 } };
+    phone.connect();
+    expect(phone.outbox.stats[KEY]).toMatchObject({ correct: 1, incorrect: 0 });
+    await phone.sync();
+    expect(server.stat(KEY)).toMatchObject({ correct: 2, incorrect: 1 });
+
+    laptop.connect();
+    expect(laptop.outbox.stats).toEqual({});
+    await laptop.sync();
+    expect(server.stat(KEY)).toMatchObject({ correct: 2, incorrect: 1 });
+    expect(laptop.noteStats[KEY]).toMatchObject({ correct: 2, incorrect: 1 });
+  });
+
+  it('push everything when connecting to a server for the first time', () => {
+    const device = createDevice(createServer());
+    device.answer(KEY, true);
+    device.outbox = EMPTY_OUTBOX;
+    device.connect();
+    expect(device.outbox.stats[KEY]).toMatchObject({ correct: 1 });
+  });
+});
+
+describe('mergeSessions', () => {
+  it('adds new sessions and keeps the server’s copy of a tied interaction', () => {
+    const local = [session('2026-01-01T10:00:00.000Z', [interaction(1, 'F')])];
+    const incoming = [session('2026-01-01T10:00:00.000Z', [interaction(1, 'G')]), session('2026-01-02T10:00:00.000Z')];
+    const merged = mergeSessions(local, incoming);
+    expect(merged.added.map(r => r.date)).toEqual(['2026-01-02T10:00:00.000Z']);
+    expect(merged.replaced.map(r => r.interactions)).toEqual([[interaction(1, 'G')]]);
+    expect(merged.history[0].interactions).toEqual([interaction(1, 'G')]);
+  });
+
+  it('reports no change when a pulled session is already here', () => {
+    const local = [session('2026-01-01T10:00:00.000Z', [interaction(2, 'G'), interaction(1, 'F')])];
+    const merged = mergeSessions(local, [session('2026-01-01T10:00:00.000Z', [interaction(1, 'F'), interaction(2, 'G')])]);
+    expect(merged).toMatchObject({ added: [], replaced: [] });
+  });
+
+  it('reports no change when the copies differ only in key order and undefined fields', () => {
+    const local: NoteInteraction = { note: { stringIndex: 0, fretIndex: 3, noteName: 'G' }, answer: 'G', isCorrect: true, isTimeout: false, timeTakenMs: 900, timestamp: 1 };
+    const incoming: NoteInteraction = JSON.parse(JSON.stringify({
+      timestamp: 1, timeTakenMs: 900, isTimeout: false, isCorrect: true, answer: 'G', note: { noteName: 'G', fretIndex: 3, stringIndex: 0 }
+    }));
+    const merged = mergeSessions([session('2026-01-01T10:00:00.000Z', [local])], [session('2026-01-01T10:00:00.000Z', [{ ...incoming, pitch: undefined }])]);
+    expect(merged).toMatchObject({ added: [], replaced: [] });
+  });
+});
+
+describe('applySyncResponse', () => {
+  it('keeps sessions finished while the request was in flight, and returns only the pulled ones to save', async () => {
+    const server = createServer();
+    const laptop = createDevice(server);
+    laptop.history = [session('2026-01-01T10:00:00.000Z', [interaction(1, 'G')])];
+    laptop.outbox = queueSession(laptop.outbox, laptop.history[0].date);
+    await laptop.sync();
+
+    const phone = createDevice(server);
+    const saved = await phone.sync(() => {
+      phone.history = [...phone.history, session('2026-01-03T10:00:00.000Z')];
+    });
+    expect(phone.history.map(r => r.date)).toEqual(['2026-01-01T10:00:00.000Z', '2026-01-03T10:00:00.000Z']);
+    expect(saved.map(r => r.date)).toEqual(['2026-01-01T10:00:00.000Z']);
+  });
+
+  it('returns sessions that gained interactions elsewhere to save again', async () => {
+    const server = createServer();
+    const phone = createDevice(server);
+    const laptop = createDevice(server);
+    phone.history = [session('2026-01-01T10:00:00.000Z', [interaction(1, 'G')])];
+    phone.outbox = queueSession(phone.outbox, phone.history[0].date);
+    await phone.sync();
+    laptop.history = [session('2026-01-01T10:00:00.000Z', [interaction(2, 'A')])];
+    laptop.outbox = queueSession(laptop.outbox, laptop.history[0].date);
+    await laptop.sync();
+
+    const saved = await phone.sync();
+    expect(saved.map(r => r.interactions.map(i => i.timestamp))).toEqual([[1, 2]]);
+    expect(phone.history[0].interactions).toEqual(saved[0].interactions);
+    expect(await phone.sync()).toEqual([]);
+  });
+
+  it('moves the cursor on and records the server’s counts', async () => {
+    const device = createDevice(createServer());
+    device.answer(KEY, true);
+    await device.sync();
+    expect(device.settings.cursor).toBe(1);
+    expect(device.settings.lastSyncedAt).not.toBeNull();
+    expect(device.serverCounts[KEY]).toEqual({ correct: 1, incorrect: 0, timeouts: 0, totalTimeMs: 1000 });
+  });
+});
+
+describe('mergeGuitars', () => {
+  it('takes the server’s versions except for guitars changed here since the request', () => {
+    const local = [guitar('g1', 'Strat (renamed here)'), guitar('g2', 'Tele')];
+    const incoming: SyncedGuitar[] = [
+      { profile: guitar('g1', 'Strat'), updatedAt: 1 },
+      { profile: guitar('g2', 'Tele (renamed elsewhere)'), updatedAt: 1 },
+      { profile: guitar('g3', 'Bass'), updatedAt: 1 }
+    ];
+    expect(mergeGuitars(local, incoming, { g1: 2 }).map(g => g.name)).toEqual(['Strat (renamed here)', 'Tele (renamed elsewhere)', 'Bass']);
+  });
+});
+
+describe('sendSyncRequest', () => {
+  const request = (settings: SyncSettings) => buildSyncRequest(settings, EMPTY_OUTBOX, [], {}, []).request;
+
+  it('rejects a server speaking another protocol version', async () => {
+    const settings = createSyncSettings('https://sync.example/fretude', '');
+    const fetchFn = (async () => new Response(JSON.stringify({ protocol: 2, cursor: 0 }), { status: 200 })) as typeof fetch;
+    await expect(sendSyncRequest(settings, request(settings), fetchFn)).rejects.toThrow('protocol version');
+  });
+
+  it('rejects an error status, leaving the outbox for the next attempt', async () => {
+    const device = createDevice(createServer(), 'wrong token');
+    device.answer(KEY, true);
+    await expect(device.sync()).rejects.toThrow('401');
+    expect(device.outbox.stats[KEY]).toMatchObject({ correct: 1 });
+  });
+});
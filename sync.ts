@@ -0,0 +1,365 @@
+import { GuitarProfile, NoteInteraction, NoteStat, NoteStatsMap, ScoreRecord } from "./types";
+
+// ============================================================================
+// SYNC (optional, to a self-hosted server)
+//
+// Protocol, version 1. The client POSTs a SyncRequest as JSON to the configured
+// endpoint (with "Authorization: Bearer <token>" when a token is set) and the
+// server answers 200 with a SyncResponse. The endpoint and token identify one
+// learner's data on the server.
+//
+// - sessions: ScoreRecords, identified by `date`. Interactions are append-only
+//   and identified by `timestamp` within their session; when both sides have
+//   an interaction with the same timestamp, the server's copy is kept.
+// - noteStats: sent as changes per key. `delta` holds the counts answered on
+//   this device since the last sync, which the server adds to its totals;
+//   `latest` is the device's current entry, whose lastSeen and review schedule
+//   replace the server's when it is at least as recent. Summing deltas is what
+//   lets several devices build one continuous NoteStatsMap, so a count must
+//   never be pushed twice: the counts each server last reported are kept per
+//   endpoint, and connecting (again) only pushes what the device has beyond them.
+// - guitars: whole profiles with the time they were changed; the newest
+//   version of each id wins.
+// - cursor: a number the server increases with every change it stores. The
+//   response holds everything changed after the request's cursor (including
+//   what the request itself pushed) and the cursor to send next time; 0 pulls
+//   everything.
+//
+// Changes are queued in an outbox that is kept in storage, so practice done
+// offline is pushed on the next successful sync.
+// ============================================================================
+
+export const SYNC_PROTOCOL_VERSION = 1;
+
+export interface SyncSettings {
+  endpoint: string;
+  token: string;
+  deviceId: string;
+  cursor: number;
+  lastSyncedAt: number | null;
+}
+
+export type StatCounts = Pick<NoteStat, 'correct' | 'incorrect' | 'timeouts' | 'totalTimeMs'>;
+
+export interface SyncOutbox {
+  sessionDates: string[];              // Sessions to push, looked up in history when sending
+  stats: Record<string, StatCounts>;   // Answers per stat key not yet pushed
+  guitars: Record<string, number>;     // Guitar id -> when it was changed
+}
+
+// Per stat key, the counts a server last reported holding
+export type ServerCounts = Record<string, StatCounts>;
+
+export interface SyncedGuitar {
+  profile: GuitarProfile;
+  updatedAt: number;
+}
+
+export interface SyncRequest {
+  protocol: number;
+  deviceId: string;
+  cursor: number;
+  sessions: ScoreRecord[];
+  noteStats: Record<string, { delta: StatCounts; latest: NoteStat }>;
+  guitars: SyncedGuitar[];
+}
+
+export interface SyncResponse {
+  protocol: number;
+  cursor: number;
+  sessions: ScoreRecord[];
+  noteStats: NoteStatsMap;
+  guitars: SyncedGuitar[];
+}
+
+export const EMPTY_OUTBOX: SyncOutbox = { sessionDates: [], stats: {}, guitars: {} };
+
+const ZERO_COUNTS: StatCounts = { correct: 0, incorrect: 0, timeouts: 0, totalTimeMs: 0 };
+
+const addCounts = (a: StatCounts, b: StatCounts, sign: 1 | -1 = 1): StatCounts => ({
+  correct: a.correct + sign * b.correct,
+  incorrect: a.incorrect + sign * b.incorrect,
+  timeouts: a.timeouts + sign * b.timeouts,
+  totalTimeMs: a.totalTimeMs + sign * b.totalTimeMs
+});
+
+export const createSyncSettings = (endpoint: string, token: string): SyncSettings => ({
+  endpoint,
+  token,
+  deviceId: `device-${Date.now()}`,
+  cursor: 0,
+  lastSyncedAt: null
+});
+
+// --- Outbox ---
+
+export const queueSession = (outbox: SyncOutbox, date: string): SyncOutbox =>
+  outbox.sessionDates.includes(date) ? outbox : { ...outbox, sessionDates: [...outbox.sessionDates, date] };
+
+/**
+ * Adds one answer to the counts waiting to be pushed for a stat key
+ */
+export const queueAnswer = (outbox: SyncOutbox, key: string, isCorrect: boolean, isTimeout: boolean, timeTakenMs: number): SyncOutbox => {
+  const answer: StatCounts = {
+    correct: isCorrect ? 1 : 0,
+    incorrect: !isCorrect && !isTimeout ? 1 : 0,
+    timeouts: isTimeout ? 1 : 0,
+    totalTimeMs: timeTakenMs
+  };
+  return { ...outbox, stats: { ...outbox.stats, [key]: addCounts(outbox.stats[key] || ZERO_COUNTS, answer) } };
+};
+
+export const queueGuitar = (outbox: SyncOutbox, guitarId: string, now: number): SyncOutbox =>
+  ({ ...outbox, guitars: { ...outbox.guitars, [guitarId]: now } });
+
+/**
+ * Everything on this device, for connecting to a server: sessions and guitars (which the server stores once however
+ * often they are pushed), and the stat counts the server does not hold yet
+ * @param serverCounts What this server last reported, empty if this device never synced with it
+ */
+export const queueEverything = (
+  history: ScoreRecord[],
+  noteStats: NoteStatsMap,
+  guitars: GuitarProfile[],
+  now: number,
+  serverCounts: ServerCounts = {}
+): SyncOutbox => {
+  const stats: Record<string, StatCounts> = {};
+  Object.entries(noteStats).forEach(([key, stat]) => {
+    const unsent = addCounts(stat, serverCounts[key] || ZERO_COUNTS, -1);
+    // Fewer answers than the server holds (e.g. after restoring an older backup) leaves nothing to push
+    const counts = {
+      correct: Math.max(0, unsent.correct),
+      incorrect: Math.max(0, unsent.incorrect),
+      timeouts: Math.max(0, unsent.timeouts),
+      totalTimeMs: Math.max(0, unsent.totalTimeMs)
+    };
+    if (counts.correct || counts.incorrect || counts.timeouts) stats[key] = counts;
+  });
+
+  return {
+    sessionDates: history.map(record => record.date),
+    stats,
+    guitars: Object.fromEntries(guitars.map(guitar => [guitar.id, now]))
+  };
+};
+
+/**
+ * What is left to push once a request has been stored by the server; answers queued while it was in flight stay
+ */
+export const removeSent = (outbox: SyncOutbox, sent: SyncOutbox): SyncOutbox => {
+  const stats: Record<string, StatCounts> = {};
+  Object.entries(outbox.stats).forEach(([key, counts]) => {
+    const left = sent.stats[key] ? addCounts(counts, sent.stats[key], -1) : counts;
+    if (left.correct || left.incorrect || left.timeouts) stats[key] = left;
+  });
+
+  const guitars: Record<string, number> = {};
+  Object.entries(outbox.guitars).forEach(([id, updatedAt]) => {
+    if (sent.guitars[id] === undefined || updatedAt > sent.guitars[id]) guitars[id] = updatedAt;
+  });
+
+  return { sessionDates: outbox.sessionDates.filter(date => !sent.sessionDates.includes(date)), stats, guitars };
+};
+
+export const isOutboxEmpty = (outbox: SyncOutbox): boolean =>
+  outbox.sessionDates.length === 0 && Object.keys(outbox.stats).length === 0 && Object.keys(outbox.guitars).length === 0;
+
+// --- Requests ---
+
+/**
+ * The request for the current outbox, and the part of the outbox it covers (sessions not in history yet are left queued)
+ */
+export const buildSyncRequest = (
+  settings: SyncSettings,
+  outbox: SyncOutbox,
+  history: ScoreRecord[],
+  noteStats: NoteStatsMap,
+  guitars: GuitarProfile[]
+): { request: SyncRequest; sent: SyncOutbox } => {
+  const sessions = history.filter(record => outbox.sessionDates.includes(record.date));
+  const sentGuitars = Object.entries(outbox.guitars).filter(([id]) => guitars.some(guitar => guitar.id === id));
+  const sentStats = Object.entries(outbox.stats).filter(([key]) => noteStats[key]);
+
+  return {
+    request: {
+      protocol: SYNC_PROTOCOL_VERSION,
+      deviceId: settings.deviceId,
+      cursor: settings.cursor,
+      sessions,
+      noteStats: Object.fromEntries(sentStats.map(([key, delta]) => [key, { delta, latest: noteStats[key] }])),
+      guitars: sentGuitars.map(([id, updatedAt]) => ({ profile: guitars.find(guitar => guitar.id === id)!, updatedAt }))
+    },
+    sent: {
+      sessionDates: sessions.map(record => record.date),
+      stats: Object.fromEntries(sentStats),
+      guitars: Object.fromEntries(sentGuitars)
+    }
+  };
+};
+
+/**
+ * Sends one sync request
+ * @param fetchFn Injected for running against a stand-in server
+ */
+export const sendSyncRequest = async (settings: SyncSettings, request: SyncRequest, fetchFn: typeof fetch = fetch): Promise<SyncResponse> => {
+  const response = await fetchFn(settings.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {})
+    },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) throw new Error(`Sync server answered ${response.status}`);
+
+  const body = await response.json();
+  if (!body || body.protocol !== SYNC_PROTOCOL_VERSION || typeof body.cursor !== 'number') {
+    throw new Error('Sync server does not speak this protocol version');
+  }
+  return {
+    protocol: body.protocol,
+    cursor: body.cursor,
+    sessions: Array.isArray(body.sessions) ? body.sessions : [],
+    noteStats: body.noteStats && typeof body.noteStats === 'object' ? body.noteStats : {},
+    guitars: Array.isArray(body.guitars) ? body.guitars : []
+  };
+};
+
+// --- Merging a response ---
+
+/**
+ * The counts a server holds, updated with the entries of a response
+ */
+export const recordServerCounts = (serverCounts: ServerCounts, incoming: NoteStatsMap): ServerCounts => ({
+  ...serverCounts,
+  ...Object.fromEntries(Object.entries(incoming).map(([key, stat]) => [key, addCounts(ZERO_COUNTS, stat)]))
+});
+
+// Interactions of both sides, one per timestamp, the server's copy winning a tie
+const mergeInteractions = (local: NoteInteraction[], incoming: NoteInteraction[]): NoteInteraction[] => {
+  const byTimestamp = new Map<number, NoteInteraction>();
+  [...local, ...incoming].forEach(interaction => byTimestamp.set(interaction.timestamp, interaction));
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Whether two copies of an interaction record the same answer; compared field by field, so the order keys arrive in
+// and fields left undefined do not count
+const isSameInteraction = (a: NoteInteraction, b: NoteInteraction): boolean =>
+  a.timestamp === b.timestamp &&
+  a.isCorrect === b.isCorrect &&
+  a.isTimeout === b.isTimeout &&
+  a.timeTakenMs === b.timeTakenMs &&
+  a.answer === b.answer &&
+  a.note?.stringIndex === b.note?.stringIndex &&
+  a.note?.fretIndex === b.note?.fretIndex &&
+  a.note?.noteName === b.note?.noteName &&
+  a.pitch === b.pitch &&
+  a.timingOffsetMs === b.timingOffsetMs &&
+  a.interval === b.interval &&
+  a.degree === b.degree &&
+  a.chord?.root === b.chord?.root &&
+  a.chord?.quality === b.chord?.quality &&
+  a.keySignature === b.keySignature;
+
+// Whether merging left a session's interactions as they were, in whatever order they were kept
+const isSameInteractions = (a: NoteInteraction[], b: NoteInteraction[]): boolean => {
+  if (a.length !== b.length) return false;
+  const sortedB = [...b].sort((x, y) => x.timestamp - y.timestamp);
+  return a.every((interaction, i) => isSameInteraction(interaction, sortedB[i]));
+};
+
+/**
+ * Local history with the sessions pulled from the server
+ * @returns The merged history, the sessions that are new here, and the existing sessions that gained or replaced interactions
+ */
+export const mergeSessions = (local: ScoreRecord[], incoming: ScoreRecord[]): { history: ScoreRecord[]; added: ScoreRecord[]; replaced: ScoreRecord[] } => {
+  const byDate = new Map(local.map(record => [record.date, record]));
+  const added: ScoreRecord[] = [];
+  const replaced: ScoreRecord[] = [];
+
+  incoming.forEach(record => {
+    const existing = byDate.get(record.date);
+    if (!existing) {
+      added.push(record);
+      byDate.set(record.date, record);
+      return;
+    }
+    const interactions = mergeInteractions(existing.interactions || [], record.interactions || []);
+    if (!isSameInteractions(interactions, existing.interactions || [])) {
+      const merged = { ...existing, interactions };
+      replaced.push(merged);
+      byDate.set(record.date, merged);
+    }
+  });
+
+  const history = Array.from(byDate.values()).sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+  return { history, added, replaced };
+};
+
+/**
+ * Local stats with the server's entries: the server's counts plus the answers given here that it has not seen yet,
+ * and the review schedule of whichever side answered last
+ */
+export const mergeStats = (local: NoteStatsMap, incoming: NoteStatsMap, pending: Record<string, StatCounts>): NoteStatsMap => {
+  const merged = { ...local };
+  Object.entries(incoming).forEach(([key, stat]) => {
+    const latest = local[key] && local[key].lastSeen > stat.lastSeen ? local[key] : stat;
+    merged[key] = { ...latest, ...addCounts(stat, pending[key] || ZERO_COUNTS) };
+  });
+  return merged;
+};
+
+/**
+ * Local guitars with the server's versions; guitars changed here since the request keep the local version
+ */
+export const mergeGuitars = (local: GuitarProfile[], incoming: SyncedGuitar[], pending: Record<string, number>): GuitarProfile[] => {
+  const merged = [...local];
+  incoming.forEach(({ profile }) => {
+    if (pending[profile.id] !== undefined) return;
+    const index = merged.findIndex(guitar => guitar.id === profile.id);
+    if (index >= 0) merged[index] = profile;
+    else merged.push(profile);
+  });
+  return merged;
+};
+
+/**
+ * What a sync reads and changes on a device
+ */
+export interface SyncState {
+  settings: SyncSettings;
+  outbox: SyncOutbox;
+  history: ScoreRecord[];
+  noteStats: NoteStatsMap;
+  guitars: GuitarProfile[];
+  serverCounts: ServerCounts;
+}
+
+/**
+ * A device's state once the server has stored a request: what was sent leaves the outbox, what was pulled is merged
+ * with what has been queued since, and the cursor moves on
+ * @param local The state now rather than when the request was built, so changes made while it was in flight are kept
+ * @param sent The part of the outbox the request pushed (from buildSyncRequest)
+ * @returns The new state, and the sessions that were added or replaced and need saving
+ */
+export const applySyncResponse = (
+  local: SyncState,
+  sent: SyncOutbox,
+  response: SyncResponse,
+  now: number
+): { state: SyncState; savedSessions: ScoreRecord[] } => {
+  const outbox = removeSent(local.outbox, sent);
+  const { history, added, replaced } = mergeSessions(local.history, response.sessions);
+  return {
+    state: {
+      settings: { ...local.settings, cursor: response.cursor, lastSyncedAt: now },
+      outbox,
+      history,
+      noteStats: mergeStats(local.noteStats, response.noteStats, outbox.stats),
+      guitars: response.guitars.length > 0 ? mergeGuitars(local.guitars, response.guitars, outbox.guitars) : local.guitars,
+      serverCounts: recordServerCounts(local.serverCounts, response.noteStats)
+    },
+    savedSessions: [...added, ...replaced]
+  };
+};
@@ -5,18 +5,26 @@ export enum GameState {
   PLAYING_STAFF = 'PLAYING_STAFF',  // New: Staff => Note Name game mode
   GAME_OVER = 'GAME_OVER',
   STUDY = 'STUDY',
-  STATS = 'STATS'
+  STATS = 'STATS',
+  TUNER = 'TUNER'  // Chromatic tuner for the active guitar profile
 }
 
-// Game mode types for future omnidirectional support
+// Game mode types: every direction between fretboard, note name and staff
 export enum GameMode {
   FRETBOARD_TO_NOTE = 'FRETBOARD_TO_NOTE',  // Original mode: see fretboard, name note
   STAFF_TO_NOTE = 'STAFF_TO_NOTE',          // New mode: see staff, name note
-  // Future modes:
-  // NOTE_TO_FRETBOARD = 'NOTE_TO_FRETBOARD',
-  // NOTE_TO_STAFF = 'NOTE_TO_STAFF',
-  // STAFF_TO_FRETBOARD = 'STAFF_TO_FRETBOARD',
-  // FRETBOARD_TO_STAFF = 'FRETBOARD_TO_STAFF',
+  NOTE_TO_FRETBOARD = 'NOTE_TO_FRETBOARD',  // See a note name, tap every location of it
+  STAFF_TO_FRETBOARD = 'STAFF_TO_FRETBOARD', // See a note on the staff, tap where that exact pitch is played
+  FRETBOARD_TO_STAFF = 'FRETBOARD_TO_STAFF', // See a fretboard position, write its pitch on the staff
+  NOTE_TO_STAFF = 'NOTE_TO_STAFF',          // See a spelled pitch (e.g. F#3), write it on the staff
+  FRETBOARD_TO_INTERVAL = 'FRETBOARD_TO_INTERVAL', // See a root and a target position, name the interval
+  FRETBOARD_TO_DEGREE = 'FRETBOARD_TO_DEGREE', // See a position, name its scale degree in the chosen key
+  FRETBOARD_TO_CHORD_TONE = 'FRETBOARD_TO_CHORD_TONE', // See a chord symbol and a position, name its chord tone
+  FRETBOARD_TO_OCTAVES = 'FRETBOARD_TO_OCTAVES', // See a position, tap every other position with the same pitch (class)
+  KEY_SIGNATURE_TO_KEY = 'KEY_SIGNATURE_TO_KEY', // See a key signature, name its major or relative minor key (or a tonic's mode)
+  EAR_TO_FRETBOARD = 'EAR_TO_FRETBOARD', // Hear a pitch, tap where it is played
+  EAR_TO_NOTE = 'EAR_TO_NOTE', // Hear a pitch, name it
+  STAFF_RHYTHM = 'STAFF_RHYTHM', // Read a passage against a click track, naming each note on its beat
 }
 
 export enum Difficulty {
@@ -38,16 +46,43 @@ export interface GameConfig {
   maxFretCap: number;
   timeLimit: number;
   adaptiveLearning: boolean;
+  octaveMatch: OctaveMatch; // Octave finder: what counts as the same note
+  playback: PlaybackMode;   // When the target pitch is played; mistakes always play it unless NEVER
+  earReference: boolean;    // Ear training: play the open lowest string before each target
+  inputMethod: InputMethod; // How note answers are given where playing the note is possible
 }
 
+// BUTTONS: tap the answer buttons, MICROPHONE: play the note on the instrument, MIDI: play it on a MIDI guitar/keyboard
+export type InputMethod = 'BUTTONS' | 'MICROPHONE' | 'MIDI';
+
+// When to sound the target note: as soon as it is shown, after a correct answer, or not at all
+export type PlaybackMode = 'ON_REVEAL' | 'ON_CORRECT' | 'NEVER';
+
+// PITCH_CLASS: any octave of the note, UNISON: only the exact same pitch
+export type OctaveMatch = 'PITCH_CLASS' | 'UNISON';
+
 export interface Note {
   stringIndex: number; // 0 (Low E) to 5 (High E)
   fretIndex: number;
   noteName: string; // e.g., "C#"
 }
 
+// A fretboard position marked during tap-to-answer modes
+export interface MarkedPosition {
+  stringIndex: number;
+  fretIndex: number;
+  status: 'found' | 'wrong' | 'missed';
+}
+
 export interface NoteInteraction {
-  note: Note;
+  note?: Note;       // Position asked; absent for staff drills, which have no position
+  pitch?: string;    // Staff drills: the sounding pitch asked, e.g. "F#3"
+  timingOffsetMs?: number; // Rhythm reading: answer time minus the note's beat (negative = early)
+  interval?: string; // Interval drill: the interval that was asked (note is the target position)
+  degree?: string;   // Scale-degree drill: the degree that was asked
+  chord?: { root: string; quality: ChordQuality }; // Chord-tone drill: the chord the position was judged against
+  keySignature?: string; // Key signature drill: the key ("Bb", "Gm") or mode ("DORIAN") that was asked
+  answer?: string;   // What was answered (note name, interval, degree, chord tone, key or mode); absent on timeouts
   isCorrect: boolean;
   timeTakenMs: number;
   isTimeout: boolean;
@@ -72,6 +107,11 @@ export interface NoteStat {
   timeouts: number;
   totalTimeMs: number;
   lastSeen: number; // Timestamp
+  // Spaced repetition schedule (SM-2); absent on stats recorded before scheduling
+  ease?: number;
+  intervalDays?: number;
+  repetitions?: number; // Successful reviews in a row
+  dueAt?: number;       // Timestamp of the next review
 }
 
 export type NoteStatsMap = Record<string, NoteStat>; // Key: "tuningId-stringIdx-fretIdx"
@@ -82,6 +122,13 @@ export enum HeatmapMetric {
   FREQUENCY = 'FREQUENCY'
 }
 
+// One colored cell of a heatmap (fretboard position or staff pitch)
+export interface HeatmapCell {
+  color: string;
+  label: string;
+  textColor?: string;
+}
+
 export interface Feedback {
   status: 'correct' | 'incorrect' | 'neutral';
   message: string;
@@ -113,25 +160,45 @@ export type ScaleType =
   | 'LOCRIAN' 
   | null;
 
+// Chord qualities; 'NATURAL_MINOR' is the minor triad (named after the scale it comes from)
+export type ChordQuality =
+  | 'MAJOR'
+  | 'NATURAL_MINOR'
+  | 'DIMINISHED'
+  | 'AUGMENTED'
+  | 'MAJOR_7'
+  | 'DOMINANT_7'
+  | 'MINOR_7'
+  | 'HALF_DIMINISHED_7'
+  | 'DIMINISHED_7';
+
 export interface StudyConfig {
   rootNote: string | null;
   activeChords: { root: string; type: 'MAJOR' | 'NATURAL_MINOR' }[];
   scaleType: ScaleType;
   manuallySelectedNotes: string[]; // Note names e.g. "C", "F#"
-  activeStrings: number[]; // Indices 0-5
+  activeStrings: number[]; // String indices, 0 = bass side of the neck
   activeFrets: number[]; // Indices 1-12
 }
 
+// A person using the app; history, stats, guitars and settings are kept per learner
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number; // Timestamp
+}
+
 export interface GuitarProfile {
   id: string;
   name: string;
   tuningName: string; // e.g., "Standard", "Drop D"
-  tuning: number[]; // Array of 6 integers. 0 = E2. -2 = D2. 5 = A2.
+  tuning: number[]; // One offset per string, bass side of the neck first. 0 = E2. -2 = D2. 5 = A2.
 }
 
 export interface TuningPreset {
   name: string;
-  offsets: number[]; // Low String (0) to High String (5)
+  instrument: string; // Heading the preset is listed under, e.g. "Bass"
+  offsets: number[]; // Bass side string (0) first; re-entrant tunings are not in pitch order
 }
 
 export type AccidentalStyle = 'SHARP' | 'FLAT';
@@ -155,4 +222,11 @@ export interface StaffGameConfig {
   noteCount: number;                        // Number of notes per round (1 = single note, 2+ = multi-note)
   noteRange: NoteRange;                     // Low and high note boundaries
   useGuitarTransposition: boolean;          // If true, display notes an octave higher (standard guitar notation)
-}
\ No newline at end of file
+  timeSignature: TimeSignature;             // Meter used to bar multi-note passages
+  maxLeap: number;                          // Largest melodic move in a passage, in staff steps (1 = stepwise)
+  keySignatureModes: boolean;               // Key signature drill: also show a tonic and ask for its mode
+  bpm: number;                              // Rhythm reading: click track tempo, in beats of the time signature
+}
+
+// Time signatures available for multi-note passages
+export type TimeSignature = '2/4' | '3/4' | '4/4' | '6/8';
\ No newline at end of file